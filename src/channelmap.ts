@@ -0,0 +1,274 @@
+// PulseAudio channel position and channel map helpers
+// See https://github.com/pulseaudio/pulseaudio/blob/v15.0/src/pulse/channelmap.h
+// and https://github.com/pulseaudio/pulseaudio/blob/v15.0/src/pulse/channelmap.c
+
+import { PA_CHANNELS_MAX } from './sample'
+import { ChannelMap } from './types/pulseaudio'
+
+/**
+ * Speaker positions of the channels of a channel map, see `ChannelMap.types`.
+ * `AUX*` positions are channels without a speaker assigned, e.g. the inputs of a multichannel sound card.
+ */
+export enum PAChannelPosition {
+  MONO = 0,
+  FRONT_LEFT = 1,
+  FRONT_RIGHT = 2,
+  FRONT_CENTER = 3,
+  REAR_CENTER = 4,
+  REAR_LEFT = 5,
+  REAR_RIGHT = 6,
+  LFE = 7,
+  FRONT_LEFT_OF_CENTER = 8,
+  FRONT_RIGHT_OF_CENTER = 9,
+  SIDE_LEFT = 10,
+  SIDE_RIGHT = 11,
+  AUX0 = 12,
+  AUX1 = 13,
+  AUX2 = 14,
+  AUX3 = 15,
+  AUX4 = 16,
+  AUX5 = 17,
+  AUX6 = 18,
+  AUX7 = 19,
+  AUX8 = 20,
+  AUX9 = 21,
+  AUX10 = 22,
+  AUX11 = 23,
+  AUX12 = 24,
+  AUX13 = 25,
+  AUX14 = 26,
+  AUX15 = 27,
+  AUX16 = 28,
+  AUX17 = 29,
+  AUX18 = 30,
+  AUX19 = 31,
+  AUX20 = 32,
+  AUX21 = 33,
+  AUX22 = 34,
+  AUX23 = 35,
+  AUX24 = 36,
+  AUX25 = 37,
+  AUX26 = 38,
+  AUX27 = 39,
+  AUX28 = 40,
+  AUX29 = 41,
+  AUX30 = 42,
+  AUX31 = 43,
+  TOP_CENTER = 44,
+  TOP_FRONT_LEFT = 45,
+  TOP_FRONT_RIGHT = 46,
+  TOP_FRONT_CENTER = 47,
+  TOP_REAR_LEFT = 48,
+  TOP_REAR_RIGHT = 49,
+  TOP_REAR_CENTER = 50
+}
+
+// Name and pretty name of each channel position, names are the ones pactl prints
+const CHANNEL_POSITIONS: Array<[string, string]> = [
+  ['mono', 'Mono'],
+  ['front-left', 'Front Left'],
+  ['front-right', 'Front Right'],
+  ['front-center', 'Front Center'],
+  ['rear-center', 'Rear Center'],
+  ['rear-left', 'Rear Left'],
+  ['rear-right', 'Rear Right'],
+  ['lfe', 'Subwoofer'],
+  ['front-left-of-center', 'Front Left-of-center'],
+  ['front-right-of-center', 'Front Right-of-center'],
+  ['side-left', 'Side Left'],
+  ['side-right', 'Side Right'],
+  ...Array.from({ length: 32 }, (_, aux): [string, string] => [`aux${aux}`, `Auxiliary ${aux}`]),
+  ['top-center', 'Top Center'],
+  ['top-front-left', 'Top Front Left'],
+  ['top-front-right', 'Top Front Right'],
+  ['top-front-center', 'Top Front Center'],
+  ['top-rear-left', 'Top Rear Left'],
+  ['top-rear-right', 'Top Rear Right'],
+  ['top-rear-center', 'Top Rear Center']
+]
+
+// Names pa_channel_position_from_string accepts besides the ones above
+const CHANNEL_POSITION_ALIASES: Record<string, PAChannelPosition> = {
+  left: PAChannelPosition.FRONT_LEFT,
+  right: PAChannelPosition.FRONT_RIGHT,
+  center: PAChannelPosition.FRONT_CENTER,
+  subwoofer: PAChannelPosition.LFE
+}
+
+const getChannelPosition = (position: PAChannelPosition): [string, string] => {
+  const channelPosition: [string, string] | undefined = CHANNEL_POSITIONS[position]
+  if (channelPosition === undefined) {
+    throw new Error(`Unknown channel position ${position}.`)
+  }
+  return channelPosition
+}
+
+/**
+ * Gets the name of a channel position, e.g. `front-left`. Mirrors `pa_channel_position_to_string`.
+ */
+export const channelPositionToString = (position: PAChannelPosition): string => getChannelPosition(position)[0]
+
+/**
+ * Gets the human readable name of a channel position, e.g. `Front Left`. Mirrors `pa_channel_position_to_pretty_string`.
+ */
+export const channelPositionToPrettyString = (position: PAChannelPosition): string => getChannelPosition(position)[1]
+
+/**
+ * Parses the name of a channel position, including the `left`, `right`, `center` and `subwoofer` aliases. Mirrors `pa_channel_position_from_string`.
+ */
+export const parseChannelPosition = (name: string): PAChannelPosition => {
+  const position: number = CHANNEL_POSITIONS.findIndex(([positionName]) => positionName === name)
+  if (position !== -1) {
+    return position
+  }
+  if (name in CHANNEL_POSITION_ALIASES) {
+    return CHANNEL_POSITION_ALIASES[name]
+  }
+  throw new Error(`Unknown channel position "${name}".`)
+}
+
+/**
+ * Formats a channel map the way pactl prints it, e.g. `front-left,front-right`. Mirrors `pa_channel_map_snprint`.
+ */
+export const channelMapToString = (channelMap: ChannelMap): string => {
+  return channelMap.types.map(channelPositionToString).join(',')
+}
+
+/**
+ * Parses a comma separated list of channel positions, e.g. `front-left,front-right`, or the name of a standard channel map, e.g. `surround-51`.
+ * Mirrors `pa_channel_map_parse`.
+ */
+export const parseChannelMap = (value: string): ChannelMap => {
+  if (value in CHANNEL_MAP_PRESETS) {
+    return channelMapFromPreset(value as ChannelMapPreset)
+  }
+
+  const types: PAChannelPosition[] = value.split(',').map(name => parseChannelPosition(name.trim()))
+  if (types.length > PA_CHANNELS_MAX) {
+    throw new Error(`Invalid channel map "${value}".`)
+  }
+  return { channels: types.length, types }
+}
+
+/**
+ * Standards the channel order of {@link initChannelMap} follows, see `pa_channel_map_def_t`.
+ * - `AIFF`: Apple's AIFF order, also the default of libpulse.
+ * - `ALSA`: The order ALSA uses for its surround devices.
+ * - `AUX`: Only auxiliary channels, no speaker positions.
+ * - `WAVEEX`: Microsoft's WAVEFORMATEXTENSIBLE order.
+ * - `OSS`: The order OSS uses for its surround devices.
+ */
+export enum PAChannelMapDef {
+  AIFF = 0,
+  ALSA = 1,
+  AUX = 2,
+  WAVEEX = 3,
+  OSS = 4
+}
+
+// Channel maps of each standard by channel count, see pa_channel_map_init_auto
+const CHANNEL_MAP_DEFS: Record<Exclude<PAChannelMapDef, PAChannelMapDef.AUX>, Record<number, PAChannelPosition[]>> = {
+  [PAChannelMapDef.AIFF]: {
+    1: [PAChannelPosition.MONO],
+    2: [PAChannelPosition.FRONT_LEFT, PAChannelPosition.FRONT_RIGHT],
+    3: [PAChannelPosition.FRONT_LEFT, PAChannelPosition.FRONT_RIGHT, PAChannelPosition.FRONT_CENTER],
+    4: [PAChannelPosition.FRONT_LEFT, PAChannelPosition.FRONT_CENTER, PAChannelPosition.FRONT_RIGHT, PAChannelPosition.REAR_CENTER],
+    5: [PAChannelPosition.FRONT_LEFT, PAChannelPosition.FRONT_RIGHT, PAChannelPosition.FRONT_CENTER, PAChannelPosition.REAR_LEFT, PAChannelPosition.REAR_RIGHT],
+    6: [PAChannelPosition.FRONT_LEFT, PAChannelPosition.FRONT_LEFT_OF_CENTER, PAChannelPosition.FRONT_CENTER, PAChannelPosition.FRONT_RIGHT, PAChannelPosition.FRONT_RIGHT_OF_CENTER, PAChannelPosition.REAR_CENTER]
+  },
+  [PAChannelMapDef.ALSA]: {
+    1: [PAChannelPosition.MONO],
+    2: [PAChannelPosition.FRONT_LEFT, PAChannelPosition.FRONT_RIGHT],
+    4: [PAChannelPosition.FRONT_LEFT, PAChannelPosition.FRONT_RIGHT, PAChannelPosition.REAR_LEFT, PAChannelPosition.REAR_RIGHT],
+    5: [PAChannelPosition.FRONT_LEFT, PAChannelPosition.FRONT_RIGHT, PAChannelPosition.REAR_LEFT, PAChannelPosition.REAR_RIGHT, PAChannelPosition.FRONT_CENTER],
+    6: [PAChannelPosition.FRONT_LEFT, PAChannelPosition.FRONT_RIGHT, PAChannelPosition.REAR_LEFT, PAChannelPosition.REAR_RIGHT, PAChannelPosition.FRONT_CENTER, PAChannelPosition.LFE],
+    8: [PAChannelPosition.FRONT_LEFT, PAChannelPosition.FRONT_RIGHT, PAChannelPosition.REAR_LEFT, PAChannelPosition.REAR_RIGHT, PAChannelPosition.FRONT_CENTER, PAChannelPosition.LFE, PAChannelPosition.SIDE_LEFT, PAChannelPosition.SIDE_RIGHT]
+  },
+  [PAChannelMapDef.WAVEEX]: {
+    1: [PAChannelPosition.MONO],
+    2: [PAChannelPosition.FRONT_LEFT, PAChannelPosition.FRONT_RIGHT],
+    3: [PAChannelPosition.FRONT_LEFT, PAChannelPosition.FRONT_RIGHT, PAChannelPosition.FRONT_CENTER],
+    4: [PAChannelPosition.FRONT_LEFT, PAChannelPosition.FRONT_RIGHT, PAChannelPosition.FRONT_CENTER, PAChannelPosition.LFE],
+    6: [PAChannelPosition.FRONT_LEFT, PAChannelPosition.FRONT_RIGHT, PAChannelPosition.FRONT_CENTER, PAChannelPosition.LFE, PAChannelPosition.REAR_LEFT, PAChannelPosition.REAR_RIGHT],
+    8: [PAChannelPosition.FRONT_LEFT, PAChannelPosition.FRONT_RIGHT, PAChannelPosition.FRONT_CENTER, PAChannelPosition.LFE, PAChannelPosition.REAR_LEFT, PAChannelPosition.REAR_RIGHT, PAChannelPosition.FRONT_LEFT_OF_CENTER, PAChannelPosition.FRONT_RIGHT_OF_CENTER],
+    9: [PAChannelPosition.FRONT_LEFT, PAChannelPosition.FRONT_RIGHT, PAChannelPosition.FRONT_CENTER, PAChannelPosition.LFE, PAChannelPosition.REAR_LEFT, PAChannelPosition.REAR_RIGHT, PAChannelPosition.FRONT_LEFT_OF_CENTER, PAChannelPosition.FRONT_RIGHT_OF_CENTER, PAChannelPosition.REAR_CENTER],
+    11: [PAChannelPosition.FRONT_LEFT, PAChannelPosition.FRONT_RIGHT, PAChannelPosition.FRONT_CENTER, PAChannelPosition.LFE, PAChannelPosition.REAR_LEFT, PAChannelPosition.REAR_RIGHT, PAChannelPosition.FRONT_LEFT_OF_CENTER, PAChannelPosition.FRONT_RIGHT_OF_CENTER, PAChannelPosition.REAR_CENTER, PAChannelPosition.SIDE_LEFT, PAChannelPosition.SIDE_RIGHT],
+    12: [PAChannelPosition.FRONT_LEFT, PAChannelPosition.FRONT_RIGHT, PAChannelPosition.FRONT_CENTER, PAChannelPosition.LFE, PAChannelPosition.REAR_LEFT, PAChannelPosition.REAR_RIGHT, PAChannelPosition.FRONT_LEFT_OF_CENTER, PAChannelPosition.FRONT_RIGHT_OF_CENTER, PAChannelPosition.REAR_CENTER, PAChannelPosition.SIDE_LEFT, PAChannelPosition.SIDE_RIGHT, PAChannelPosition.TOP_CENTER],
+    15: [PAChannelPosition.FRONT_LEFT, PAChannelPosition.FRONT_RIGHT, PAChannelPosition.FRONT_CENTER, PAChannelPosition.LFE, PAChannelPosition.REAR_LEFT, PAChannelPosition.REAR_RIGHT, PAChannelPosition.FRONT_LEFT_OF_CENTER, PAChannelPosition.FRONT_RIGHT_OF_CENTER, PAChannelPosition.REAR_CENTER, PAChannelPosition.SIDE_LEFT, PAChannelPosition.SIDE_RIGHT, PAChannelPosition.TOP_CENTER, PAChannelPosition.TOP_FRONT_LEFT, PAChannelPosition.TOP_FRONT_CENTER, PAChannelPosition.TOP_FRONT_RIGHT],
+    18: [PAChannelPosition.FRONT_LEFT, PAChannelPosition.FRONT_RIGHT, PAChannelPosition.FRONT_CENTER, PAChannelPosition.LFE, PAChannelPosition.REAR_LEFT, PAChannelPosition.REAR_RIGHT, PAChannelPosition.FRONT_LEFT_OF_CENTER, PAChannelPosition.FRONT_RIGHT_OF_CENTER, PAChannelPosition.REAR_CENTER, PAChannelPosition.SIDE_LEFT, PAChannelPosition.SIDE_RIGHT, PAChannelPosition.TOP_CENTER, PAChannelPosition.TOP_FRONT_LEFT, PAChannelPosition.TOP_FRONT_CENTER, PAChannelPosition.TOP_FRONT_RIGHT, PAChannelPosition.TOP_REAR_LEFT, PAChannelPosition.TOP_REAR_CENTER, PAChannelPosition.TOP_REAR_RIGHT]
+  },
+  [PAChannelMapDef.OSS]: {
+    1: [PAChannelPosition.MONO],
+    2: [PAChannelPosition.FRONT_LEFT, PAChannelPosition.FRONT_RIGHT],
+    3: [PAChannelPosition.FRONT_LEFT, PAChannelPosition.FRONT_RIGHT, PAChannelPosition.FRONT_CENTER],
+    4: [PAChannelPosition.FRONT_LEFT, PAChannelPosition.FRONT_RIGHT, PAChannelPosition.FRONT_CENTER, PAChannelPosition.LFE],
+    6: [PAChannelPosition.FRONT_LEFT, PAChannelPosition.FRONT_RIGHT, PAChannelPosition.FRONT_CENTER, PAChannelPosition.LFE, PAChannelPosition.SIDE_LEFT, PAChannelPosition.SIDE_RIGHT],
+    8: [PAChannelPosition.FRONT_LEFT, PAChannelPosition.FRONT_RIGHT, PAChannelPosition.FRONT_CENTER, PAChannelPosition.LFE, PAChannelPosition.SIDE_LEFT, PAChannelPosition.SIDE_RIGHT, PAChannelPosition.REAR_LEFT, PAChannelPosition.REAR_RIGHT]
+  }
+}
+
+/**
+ * Creates the channel map a standard defines for the given number of channels. Mirrors `pa_channel_map_init_auto`.
+ * Throws if the standard defines no channel map for that many channels, only `AUX` covers every channel count.
+ *
+ * @example
+ * ```ts
+ * const channelMap = initChannelMap(6, PAChannelMapDef.ALSA) // front-left,front-right,rear-left,rear-right,front-center,lfe
+ * ```
+ */
+export const initChannelMap = (channels: number, def: PAChannelMapDef = PAChannelMapDef.AIFF): ChannelMap => {
+  if (channels < 1 || channels > PA_CHANNELS_MAX) {
+    throw new Error(`Expected between 1 and ${PA_CHANNELS_MAX} channels, got ${channels}.`)
+  }
+
+  if (def === PAChannelMapDef.AUX) {
+    return { channels, types: Array.from({ length: channels }, (_, aux) => PAChannelPosition.AUX0 + aux) }
+  }
+
+  const types: PAChannelPosition[] | undefined = CHANNEL_MAP_DEFS[def][channels]
+  if (types === undefined) {
+    throw new Error(`No channel map with ${channels} channels in ${PAChannelMapDef[def]} order.`)
+  }
+  return { channels, types: [...types] }
+}
+
+/**
+ * Channel map names accepted by {@link channelMapFromPreset}. `auxN` is N auxiliary channels, e.g. `aux8`.
+ */
+export type ChannelMapPreset = 'mono' | 'stereo' | 'surround-21' | 'surround-40' | 'surround-41' | 'surround-50' | 'surround-51' | 'surround-71' | `aux${number}`
+
+// Named channel maps pa_channel_map_parse accepts, in the order pactl prints them
+const CHANNEL_MAP_PRESETS: Record<Exclude<ChannelMapPreset, `aux${number}`>, PAChannelPosition[]> = {
+  mono: [PAChannelPosition.MONO],
+  stereo: [PAChannelPosition.FRONT_LEFT, PAChannelPosition.FRONT_RIGHT],
+  'surround-21': [PAChannelPosition.FRONT_LEFT, PAChannelPosition.FRONT_RIGHT, PAChannelPosition.LFE],
+  'surround-40': [PAChannelPosition.FRONT_LEFT, PAChannelPosition.FRONT_RIGHT, PAChannelPosition.REAR_LEFT, PAChannelPosition.REAR_RIGHT],
+  'surround-41': [PAChannelPosition.FRONT_LEFT, PAChannelPosition.FRONT_RIGHT, PAChannelPosition.REAR_LEFT, PAChannelPosition.REAR_RIGHT, PAChannelPosition.LFE],
+  'surround-50': [PAChannelPosition.FRONT_LEFT, PAChannelPosition.FRONT_RIGHT, PAChannelPosition.REAR_LEFT, PAChannelPosition.REAR_RIGHT, PAChannelPosition.FRONT_CENTER],
+  'surround-51': [PAChannelPosition.FRONT_LEFT, PAChannelPosition.FRONT_RIGHT, PAChannelPosition.REAR_LEFT, PAChannelPosition.REAR_RIGHT, PAChannelPosition.FRONT_CENTER, PAChannelPosition.LFE],
+  'surround-71': [PAChannelPosition.FRONT_LEFT, PAChannelPosition.FRONT_RIGHT, PAChannelPosition.REAR_LEFT, PAChannelPosition.REAR_RIGHT, PAChannelPosition.FRONT_CENTER, PAChannelPosition.LFE, PAChannelPosition.SIDE_LEFT, PAChannelPosition.SIDE_RIGHT]
+}
+
+/**
+ * Creates a standard channel map from its name, as used by pactl and module arguments (`channel_map=surround-51`).
+ *
+ * @example
+ * ```ts
+ * await client.createPlaybackStream({
+ *   sampleSpec: { format: PASampleFormat.S16LE, channels: 6, rate: 48000 },
+ *   channelMap: channelMapFromPreset('surround-51')
+ * })
+ * ```
+ */
+export const channelMapFromPreset = (preset: ChannelMapPreset): ChannelMap => {
+  const aux: RegExpMatchArray | null = preset.match(/^aux(\d+)$/)
+  if (aux !== null) {
+    return initChannelMap(parseInt(aux[1], 10), PAChannelMapDef.AUX)
+  }
+
+  const types: PAChannelPosition[] | undefined = CHANNEL_MAP_PRESETS[preset as keyof typeof CHANNEL_MAP_PRESETS]
+  if (types === undefined) {
+    throw new Error(`Unknown channel map preset "${preset}".`)
+  }
+  return { channels: types.length, types: [...types] }
+}
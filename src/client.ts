@@ -4,32 +4,62 @@ import { Socket } from './net'
 import { Buffer } from 'buffer'
 
 import PAPacket from './packet'
+import PAMemblock from './memblock'
+import PAFrameParser from './frame'
 import PARequest from './request'
+import { PAPlaybackStream, PARecordStream, PAStreamFlags } from './stream'
+import { getDefaultChannelMap } from './streams/common'
+import { getTimeval, getTimingInfo } from './timing'
+import { PAPropKey, PAUpdateMode, PropList, PropListInit } from './proplist'
+import { getProcessProperties } from './process'
+import { PAVolumeUnit, VolumeScale, toRawVolume } from './volume'
 import { PATag } from './tag'
 import { PA_MAX_REQUEST_ID, PA_PROTOCOL_MINIMUM_VERSION } from './protocol'
 import { PASubscriptionEventType, PAEvent } from './event'
-import { PAError } from './error'
+import { PAError, PAErrorList } from './error'
 import {
   AuthInfo,
+  Card,
+  ChannelMap,
+  ChannelVolume,
+  Client,
   ClientInfo,
+  ClientProperties,
+  Index,
+  LatencyInfo,
   Module,
+  PlaybackStreamInfo,
+  PlaybackStreamOptions,
+  RecordStreamInfo,
+  RecordStreamOptions,
+  Sample,
+  SampleSpec,
   ServerInfo,
   Sink,
   SinkInput,
   Source,
   SourceOutput,
+  StatInfo,
+  Status,
+  StreamMoveResult,
   SubscribeInfo,
+  TimingInfo,
+  UploadStreamInfo,
   VolumeInfo
 } from './types/pulseaudio'
 
-import { SetClientName } from './commands/client'
+import { SetClientName, GetClient, GetClientList, KillClient, UpdateClientProperties, RemoveClientProperties } from './commands/client'
 import { PA_NATIVE_COMMAND_NAMES } from './commands'
-import { GetSink, GetSinkList, SetSinkVolume } from './commands/sink'
-import { Authenticate, GetServerInfo, Subscribe } from './commands/server'
-import { GetSinkInput, GetSinkInputList, MoveSinkInput } from './commands/sinkInput'
+import { GetSink, GetSinkList, SetSinkVolume, SetSinkMute, SetSinkPort, SuspendSink, LookupSink } from './commands/sink'
+import { Authenticate, GetServerInfo, GetStats, Subscribe, SetDefaultSink, SetDefaultSource } from './commands/server'
+import { GetSinkInput, GetSinkInputList, MoveSinkInput, SetSinkInputMute, SetSinkInputVolume, KillSinkInput } from './commands/sinkInput'
 import { GetModule, GetModuleList, LoadModule, UnloadModule } from './commands/module'
-import { GetSource, GetSourceList, SetSourceVolume } from './commands/source'
-import { GetSourceOutput, GetSourceOutputList, MoveSourceOutput } from './commands/sourceOutput'
+import { GetSource, GetSourceList, SetSourceVolume, SetSourceMute, SetSourcePort, SuspendSource, LookupSource } from './commands/source'
+import { GetSourceOutput, GetSourceOutputList, MoveSourceOutput, SetSourceOutputMute, SetSourceOutputVolume, KillSourceOutput } from './commands/sourceOutput'
+import { CreatePlaybackStream, DeletePlaybackStream, CorkPlaybackStream, FlushPlaybackStream, DrainPlaybackStream, GetPlaybackLatency, UpdatePlaybackStreamProperties, RemovePlaybackStreamProperties } from './commands/playbackStream'
+import { CreateRecordStream, DeleteRecordStream, CorkRecordStream, FlushRecordStream, GetRecordLatency, UpdateRecordStreamProperties, RemoveRecordStreamProperties } from './commands/recordStream'
+import { GetCard, GetCardList, SetCardProfile, SetPortLatencyOffset } from './commands/card'
+import { CreateUploadStream, FinishUploadStream, PlaySample, RemoveSample, GetSample, GetSampleList } from './commands/sample'
 
 export interface TCPSocket {
   type: 'tcp'
@@ -45,9 +75,12 @@ export interface UnixSocket {
 /**
  * Implements the PulseAudio client.
  *
+ * If the server sends data that can't be read (e.g. an oversized frame), the client rejects every pending request,
+ * disconnects and emits an `error` event with the cause.
+ *
  * @example
  * ```ts
- * import PulseAudio, { Sink } from '@rgon/pulseaudio_js'
+ * import PulseAudio, { PAVolumeUnit, Sink } from '@rgon/pulseaudio_js'
  *
  * (async () => {
  *   // Connect using tcp socket
@@ -57,7 +90,7 @@ export interface UnixSocket {
  *   // Set volume of all sinks to 50%
  *   const sinks: Sink[] = await client.getSinkList()
  *   for (const sink of sinks) {
- *     await client.setSinkVolume(sink.index, 50)
+ *     await client.setSinkVolume(sink.index, 50, PAVolumeUnit.PERCENT)
  *   }
  *
  *   // Close connection
@@ -84,8 +117,10 @@ export default class PulseAudio extends EventEmitter {
   */
   public protocol: number = 0
   private socket: Socket
-  private chunks: Buffer[] = []
+  private frames: PAFrameParser = new PAFrameParser()
   private requests: PARequest[] = []
+  private playbackStreams: PAPlaybackStream[] = []
+  private recordStreams: PARecordStream[] = []
   private lastRequestId: number = 0
 
   /**
@@ -113,11 +148,25 @@ export default class PulseAudio extends EventEmitter {
 
   /**
   * Connects the client to the PulseAudio server. Won't retry if the server is not reachable or the connection attempt is refused. Times out after 5 seconds.
+  *
+  * Once authenticated, the client describes itself to the server with the given properties. The process ID, binary, user, host and language
+  * are filled in from the running process (Node.js or GJS) unless they are given.
+  *
+  * @example
+  * ```typescript
+  * await client.connect({
+  *   'application.name': 'Kiosk player',
+  *   'application.id': 'com.example.kiosk',
+  *   'application.version': '1.2.0'
+  * })
+  * ```
   * @category client
+  * @param properties Properties of the client, `application.name` defaults to `paclient`.
   */
-  async connect (): Promise<AuthInfo> {
+  async connect (properties: ClientProperties = {}): Promise<AuthInfo> {
     return await new Promise<AuthInfo>((resolve, reject) => {
       this.socket = new Socket()
+      this.frames = new PAFrameParser()
       if (this.address.type === 'tcp') {
         this.socket.connect(this.address.port, this.address.host)
       } else {
@@ -127,21 +176,29 @@ export default class PulseAudio extends EventEmitter {
       this.socket.on('connect', async () => {
         this.connected = true
 
-        // Authenticate client
-        const reply: AuthInfo = await this.authenticate()
-        this.protocol = reply.protocol
-        if (this.address.type === 'tcp') {
-          console.log(`Connected to PulseAudio at tcp://${this.address.host}:${this.address.port} using protocol v${this.protocol}`)
-        } else {
-          console.log(`Connected to PulseAudio at unix://${this.address.path} using protocol v${this.protocol}`)
-        }
+        try {
+          // Authenticate client
+          const reply: AuthInfo = await this.authenticate()
+          this.protocol = reply.protocol
+          if (this.address.type === 'tcp') {
+            console.log(`Connected to PulseAudio at tcp://${this.address.host}:${this.address.port} using protocol v${this.protocol}`)
+          } else {
+            console.log(`Connected to PulseAudio at unix://${this.address.path} using protocol v${this.protocol}`)
+          }
 
-        if (reply.protocol < PA_PROTOCOL_MINIMUM_VERSION) {
-          this.disconnect()
-          reject(new Error(`Server protocol version is too low, please update to ${PA_PROTOCOL_MINIMUM_VERSION} or higher.`))
-        }
+          if (reply.protocol < PA_PROTOCOL_MINIMUM_VERSION) {
+            this.disconnect()
+            reject(new Error(`Server protocol version is too low, please update to ${PA_PROTOCOL_MINIMUM_VERSION} or higher.`))
+            return
+          }
 
-        resolve(reply)
+          const clientProperties: ClientProperties = { 'application.name': 'paclient', ...getProcessProperties(), ...properties }
+          await this.sendRequest(SetClientName.query(this.requestId(), new PropList(clientProperties)))
+
+          resolve(reply)
+        } catch (error) {
+          reject(error)
+        }
       })
       this.socket.on('readable', this.onReadable.bind(this))
       this.socket.on('error', reject)
@@ -153,17 +210,85 @@ export default class PulseAudio extends EventEmitter {
   * @category client
   */
   disconnect (): void {
+    this.connected = false
+    for (const stream of this.playbackStreams) {
+      stream.destroy()
+    }
+    for (const stream of this.recordStreams) {
+      stream.destroy()
+    }
+    this.playbackStreams = []
+    this.recordStreams = []
     this.socket.removeAllListeners()
     this.socket.end()
   }
 
   /**
-  * Specify the client name passed to the server when connecting.
+  * Changes the client name (`application.name`) on the server. Pass it to {@link connect} instead to set it when connecting.
   * @category client
   * @param clientName The client name. Defaults to `paclient`.
   */
   async setClientName (clientName: string = 'paclient'): Promise<ClientInfo> {
-    const query: PAPacket = SetClientName.query(this.requestId(), clientName)
+    const query: PAPacket = SetClientName.query(this.requestId(), [['application.name', clientName]])
+    return await this.sendRequest(query)
+  }
+
+  /**
+  * Gets details for the client identified by the specified numeric index.
+  * Use `SinkInput.clientIndex` or `SourceOutput.clientIndex` to find the client owning a stream, its properties hold the application name, binary and process ID.
+  * @category client
+  * @param client The numerical index of the client to get details for.
+  */
+  async getClient (client: number): Promise<Client> {
+    const query: PAPacket = GetClient.query(this.requestId(), client)
+    return await this.sendRequest(query)
+  }
+
+  /**
+  * Gets details for all clients connected to the server.
+  * @category client
+  */
+  async getClientList (): Promise<Client[]> {
+    const query: PAPacket = GetClientList.query(this.requestId())
+    return await this.sendRequest(query)
+  }
+
+  /**
+  * Forcibly disconnects the client identified by the specified numeric index from the server.
+  * @category client
+  * @param client The numerical index of the client to kill.
+  */
+  async killClient (client: number): Promise<Status> {
+    const query: PAPacket = KillClient.query(this.requestId(), client)
+    return await this.sendRequest(query)
+  }
+
+  /**
+  * Updates the properties of this client on the server, e.g. to describe the application after connecting.
+  *
+  * @example
+  * ```typescript
+  * await client.updateClientProperties(PAUpdateMode.REPLACE, [
+  *   ['application.icon_name', 'audio-player'],
+  *   ['media.role', 'music']
+  * ])
+  * ```
+  * @category client
+  * @param mode How the properties are combined with the ones already set, see {@link PAUpdateMode}.
+  * @param properties The properties to set.
+  */
+  async updateClientProperties (mode: PAUpdateMode, properties: PropListInit): Promise<Status> {
+    const query: PAPacket = UpdateClientProperties.query(this.requestId(), mode, properties)
+    return await this.sendRequest(query)
+  }
+
+  /**
+  * Removes properties of this client on the server.
+  * @category client
+  * @param keys The keys of the properties to remove.
+  */
+  async removeClientProperties (keys: string[]): Promise<Status> {
+    const query: PAPacket = RemoveClientProperties.query(this.requestId(), keys)
     return await this.sendRequest(query)
   }
 
@@ -190,6 +315,39 @@ export default class PulseAudio extends EventEmitter {
     return await this.sendRequest(query)
   }
 
+  /**
+  * Gets memory statistics of the server: memory blocks currently allocated (`memblockTotal`, `memblockTotalSize`),
+  * allocated since the server started (`memblockAllocated`, `memblockAllocatedSize`) and the size of the sample cache.
+  * Sizes are in bytes. A steadily growing `memblockTotalSize` on an otherwise idle server hints at a leak.
+  * @category server
+  */
+  async getStats (): Promise<StatInfo> {
+    const query: PAPacket = GetStats.query(this.requestId())
+    return await this.sendRequest(query)
+  }
+
+  /**
+  * Sets the default sink, used by new playback streams that don't request a specific sink.
+  * @category server
+  * @param sink The symbolic name or numerical index of the new default sink. Indexes are resolved to names, since the server only accepts names.
+  */
+  async setDefaultSink (sink: number | string): Promise<Status> {
+    const sinkName: string = typeof sink === 'number' ? (await this.getSink(sink)).name : sink
+    const query: PAPacket = SetDefaultSink.query(this.requestId(), sinkName)
+    return await this.sendRequest(query)
+  }
+
+  /**
+  * Sets the default source, used by new recording streams that don't request a specific source.
+  * @category server
+  * @param source The symbolic name or numerical index of the new default source. Indexes are resolved to names, since the server only accepts names.
+  */
+  async setDefaultSource (source: number | string): Promise<Status> {
+    const sourceName: string = typeof source === 'number' ? (await this.getSource(source)).name : source
+    const query: PAPacket = SetDefaultSource.query(this.requestId(), sourceName)
+    return await this.sendRequest(query)
+  }
+
   /**
   * Gets details for the sink instance identified by the specified symbolic name or numeric index.
   * @category sink
@@ -200,6 +358,26 @@ export default class PulseAudio extends EventEmitter {
     return await this.sendRequest(query)
   }
 
+  /**
+  * Gets the numerical index of the sink with the specified symbolic name, without fetching the rest of its details.
+  * Rejects with `No such entity` if there is no such sink.
+  *
+  * @example
+  * ```typescript
+  * const { index } = await client.lookupSink('alsa_output.dac.stereo-fallback')
+  * ```
+  * @category sink
+  * @param sink The symbolic name of the sink.
+  */
+  async lookupSink (sink: string): Promise<Index> {
+    const query: PAPacket = LookupSink.query(this.requestId(), sink)
+    const reply = await this.sendRequest(query)
+    if (reply.success === false) {
+      throw new Error(reply.error)
+    }
+    return reply
+  }
+
   /**
   * Gets details for all sink instances.
   * @category sink
@@ -211,12 +389,56 @@ export default class PulseAudio extends EventEmitter {
 
   /**
   * Sets the volume of the specified sink (identified by its symbolic name or numerical index).
+  * A single volume is applied to every channel of the sink, pass a `ChannelVolume` to set each channel separately (see {@link setBalance} and {@link setFade}).
   * @category sink
   * @param sink The symbolic name or numerical index of the sink to set the volume of.
-  * @param volume The volume to set the source to in percentage (0% - 100%).
+  * @param volume The volume to set on every channel, or a `ChannelVolume` with one volume per channel of the sink's channel map.
+  * @param unit The unit of the volume, raw `pa_volume_t` values by default. Decibels are relative to the sink's base volume, see {@link toRawVolume}.
+  */
+  async setSinkVolume (sink: number | string, volume: number | ChannelVolume, unit: PAVolumeUnit = PAVolumeUnit.RAW): Promise<VolumeInfo> {
+    const channelVolume: ChannelVolume = typeof volume !== 'number' && unit === PAVolumeUnit.RAW
+      ? volume
+      : await this.getSink(sink).then(info => this.toChannelVolume(volume, unit, info.channelMap, info))
+    const query: PAPacket = SetSinkVolume.query(this.requestId(), sink, channelVolume)
+    return await this.sendRequest(query)
+  }
+
+  /**
+  * Mutes or unmutes the specified sink (identified by its symbolic name or numerical index).
+  * @category sink
+  * @param sink The symbolic name or numerical index of the sink to mute or unmute.
+  * @param mute `true` to mute the sink, `false` to unmute it.
   */
-  async setSinkVolume (sink: number | string, volume: number): Promise<VolumeInfo> {
-    const query: PAPacket = SetSinkVolume.query(this.requestId(), sink, { channels: 2, volumes: [volume, volume] })
+  async setSinkMute (sink: number | string, mute: boolean): Promise<Status> {
+    const query: PAPacket = SetSinkMute.query(this.requestId(), sink, mute)
+    return await this.sendRequest(query)
+  }
+
+  /**
+  * Switches the active port of the specified sink (identified by its symbolic name or numerical index), e.g. to 'analog-output-headphones'.
+  * Rejects if the sink has no port with that name, available ports are listed in `Sink.ports`.
+  * @category sink
+  * @param sink The symbolic name or numerical index of the sink.
+  * @param port The name of the port to activate.
+  */
+  async setSinkPort (sink: number | string, port: string): Promise<Status> {
+    const info: Sink = await this.getSink(sink)
+    if (info.ports?.some(p => p.name === port) !== true) {
+      throw new Error(`Sink ${info.name} has no port named ${port}.`)
+    }
+    const query: PAPacket = SetSinkPort.query(this.requestId(), sink, port)
+    return await this.sendRequest(query)
+  }
+
+  /**
+  * Suspends or resumes the specified sink (identified by its symbolic name or numerical index), closing or reopening the underlying device.
+  * Check `Sink.state` for the result, a suspended sink reports `PADeviceState.SUSPENDED`.
+  * @category sink
+  * @param sink The symbolic name or numerical index of the sink, or `null` to suspend or resume all sinks.
+  * @param suspend `true` to suspend the sink, `false` to resume it.
+  */
+  async suspendSink (sink: number | string | null, suspend: boolean): Promise<Status> {
+    const query: PAPacket = SuspendSink.query(this.requestId(), sink, suspend)
     return await this.sendRequest(query)
   }
 
@@ -224,7 +446,7 @@ export default class PulseAudio extends EventEmitter {
   * Gets details for all sink input instances.
   * @category sinkInput
   */
-  async getSinkInputList (): Promise<Sink[]> {
+  async getSinkInputList (): Promise<SinkInput[]> {
     const query: PAPacket = GetSinkInputList.query(this.requestId())
     return await this.sendRequest(query)
   }
@@ -240,16 +462,92 @@ export default class PulseAudio extends EventEmitter {
   }
 
   /**
-  * Move the specified playback stream (identified by its numerical index) to the specified sink (identified by its numerical index).
+  * Moves the specified playback stream (identified by its numerical index) to the specified sink (identified by its symbolic name or numerical index).
   * @category sinkInput
   * @param sinkInput The numerical index of the playback stream to move.
-  * @param sink The numerical index of the sink to move the playback stream to.
+  * @param sink The symbolic name or numerical index of the sink to move the playback stream to.
   */
-  async moveSinkInput (sinkInput: number, sink: number): Promise<any> {
+  async moveSinkInput (sinkInput: number, sink: number | string): Promise<Status> {
     const query: PAPacket = MoveSinkInput.query(this.requestId(), sinkInput, sink)
     return await this.sendRequest(query)
   }
 
+  /**
+  * Moves every playback stream currently playing on a sink to another sink.
+  * Streams that can't be moved, because they were created with `PAStreamFlags.DONT_MOVE` (or the `node.dont-move` property on PipeWire), are skipped.
+  * Failing to move one stream doesn't stop the others from being moved, check the outcome of each stream in the returned list.
+  * ```typescript
+  * const results = await client.moveAllSinkInputs('alsa_output.dac.stereo-fallback', 'bluez_sink.headset.a2dp_sink')
+  * const failed = results.filter(r => !r.moved)
+  * ```
+  * @category sinkInput
+  * @param fromSink The symbolic name or numerical index of the sink to move the playback streams from.
+  * @param toSink The symbolic name or numerical index of the sink to move the playback streams to.
+  */
+  async moveAllSinkInputs (fromSink: number | string, toSink: number | string): Promise<StreamMoveResult[]> {
+    const sink: Sink = await this.getSink(fromSink)
+    const sinkInputs: SinkInput[] = await this.getSinkInputList()
+
+    const results: StreamMoveResult[] = []
+    for (const sinkInput of sinkInputs.filter(s => s.sinkIndex === sink.index)) {
+      if (!this.isSinkInputMovable(sinkInput)) {
+        results.push({ index: sinkInput.index, moved: false, error: `Sink input ${sinkInput.index} can't be moved.` })
+        continue
+      }
+      try {
+        const status: Status = await this.moveSinkInput(sinkInput.index, toSink)
+        results.push(status.success ? { index: sinkInput.index, moved: true } : { index: sinkInput.index, moved: false, error: status.error })
+      } catch (error) {
+        results.push({ index: sinkInput.index, moved: false, error: (error as Error).message })
+      }
+    }
+    return results
+  }
+
+  /**
+  * Mutes or unmutes the specified playback stream (identified by its numerical index).
+  * @category sinkInput
+  * @param sinkInput The numerical index of the playback stream to mute or unmute.
+  * @param mute `true` to mute the playback stream, `false` to unmute it.
+  */
+  async setSinkInputMute (sinkInput: number, mute: boolean): Promise<Status> {
+    const query: PAPacket = SetSinkInputMute.query(this.requestId(), sinkInput, mute)
+    return await this.sendRequest(query)
+  }
+
+  /**
+  * Sets the volume of the specified playback stream (identified by its numerical index).
+  * Rejects if the stream has no volume or its volume is read-only, e.g. passthrough streams.
+  * @category sinkInput
+  * @param sinkInput The numerical index of the playback stream to set the volume of.
+  * @param volume The volume to set on every channel, or a `ChannelVolume` with one volume per channel of the stream.
+  * @param unit The unit of the volume, raw `pa_volume_t` values by default.
+  */
+  async setSinkInputVolume (sinkInput: number, volume: number | ChannelVolume, unit: PAVolumeUnit = PAVolumeUnit.RAW): Promise<VolumeInfo> {
+    const info: SinkInput = await this.getSinkInput(sinkInput)
+    if (info.hasVolume === false || info.isVolumeWritable === false) {
+      throw new Error(`Volume of sink input ${sinkInput} is read-only.`)
+    }
+    const channelVolume: ChannelVolume = this.toChannelVolume(volume, unit, info.channelMap)
+    const query: PAPacket = SetSinkInputVolume.query(this.requestId(), sinkInput, channelVolume)
+    return await this.sendRequest(query)
+  }
+
+  /**
+  * Kills the specified playback stream (identified by its numerical index), disconnecting it from its sink.
+  * Rejects with the server's error, e.g. `No such entity`, if the stream does not exist.
+  * @category sinkInput
+  * @param sinkInput The numerical index of the playback stream to kill.
+  */
+  async killSinkInput (sinkInput: number): Promise<Status> {
+    const query: PAPacket = KillSinkInput.query(this.requestId(), sinkInput)
+    const reply: Status = await this.sendRequest(query)
+    if (!reply.success) {
+      throw new Error(reply.error)
+    }
+    return reply
+  }
+
   /**
   * Gets details for the source instance identified by the specified symbolic name or numeric index.
   * @category source
@@ -260,6 +558,26 @@ export default class PulseAudio extends EventEmitter {
     return await this.sendRequest(query)
   }
 
+  /**
+  * Gets the numerical index of the source with the specified symbolic name, without fetching the rest of its details.
+  * Rejects with `No such entity` if there is no such source.
+  *
+  * @example
+  * ```typescript
+  * const { index } = await client.lookupSource('alsa_input.dac.stereo-fallback')
+  * ```
+  * @category source
+  * @param source The symbolic name of the source.
+  */
+  async lookupSource (source: string): Promise<Index> {
+    const query: PAPacket = LookupSource.query(this.requestId(), source)
+    const reply = await this.sendRequest(query)
+    if (reply.success === false) {
+      throw new Error(reply.error)
+    }
+    return reply
+  }
+
   /**
   * Gets details for all source instances.
   * @category source
@@ -271,12 +589,56 @@ export default class PulseAudio extends EventEmitter {
 
   /**
   * Sets the volume of the specified source (identified by its symbolic name or numerical index).
+  * A single volume is applied to every channel of the source, pass a `ChannelVolume` to set each channel separately (see {@link setBalance} and {@link setFade}).
   * @category source
   * @param source The symbolic name or numerical index of the source to set the volume of.
-  * @param volume The volume to set the source to in percentage (0% - 100%).
+  * @param volume The volume to set on every channel, or a `ChannelVolume` with one volume per channel of the source's channel map.
+  * @param unit The unit of the volume, raw `pa_volume_t` values by default. Decibels are relative to the source's base volume, see {@link toRawVolume}.
   */
-  async setSourceVolume (source: number | string, volume: number): Promise<Source> {
-    const query: PAPacket = SetSourceVolume.query(this.requestId(), source, { channels: 2, volumes: [volume, volume] })
+  async setSourceVolume (source: number | string, volume: number | ChannelVolume, unit: PAVolumeUnit = PAVolumeUnit.RAW): Promise<VolumeInfo> {
+    const channelVolume: ChannelVolume = typeof volume !== 'number' && unit === PAVolumeUnit.RAW
+      ? volume
+      : await this.getSource(source).then(info => this.toChannelVolume(volume, unit, info.channelMap, info))
+    const query: PAPacket = SetSourceVolume.query(this.requestId(), source, channelVolume)
+    return await this.sendRequest(query)
+  }
+
+  /**
+  * Mutes or unmutes the specified source (identified by its symbolic name or numerical index).
+  * @category source
+  * @param source The symbolic name or numerical index of the source to mute or unmute.
+  * @param mute `true` to mute the source, `false` to unmute it.
+  */
+  async setSourceMute (source: number | string, mute: boolean): Promise<Status> {
+    const query: PAPacket = SetSourceMute.query(this.requestId(), source, mute)
+    return await this.sendRequest(query)
+  }
+
+  /**
+  * Switches the active port of the specified source (identified by its symbolic name or numerical index), e.g. to 'analog-input-mic'.
+  * Rejects if the source has no port with that name, available ports are listed in `Source.ports`.
+  * @category source
+  * @param source The symbolic name or numerical index of the source.
+  * @param port The name of the port to activate.
+  */
+  async setSourcePort (source: number | string, port: string): Promise<Status> {
+    const info: Source = await this.getSource(source)
+    if (info.ports?.some(p => p.name === port) !== true) {
+      throw new Error(`Source ${info.name} has no port named ${port}.`)
+    }
+    const query: PAPacket = SetSourcePort.query(this.requestId(), source, port)
+    return await this.sendRequest(query)
+  }
+
+  /**
+  * Suspends or resumes the specified source (identified by its symbolic name or numerical index), closing or reopening the underlying device.
+  * Check `Source.state` for the result, a suspended source reports `PADeviceState.SUSPENDED`.
+  * @category source
+  * @param source The symbolic name or numerical index of the source, or `null` to suspend or resume all sources.
+  * @param suspend `true` to suspend the source, `false` to resume it.
+  */
+  async suspendSource (source: number | string | null, suspend: boolean): Promise<Status> {
+    const query: PAPacket = SuspendSource.query(this.requestId(), source, suspend)
     return await this.sendRequest(query)
   }
 
@@ -300,16 +662,60 @@ export default class PulseAudio extends EventEmitter {
   }
 
   /**
-  * Move the specified recording stream (identified by its numerical index) to the specified source (identified by its numerical index).
+  * Moves the specified recording stream (identified by its numerical index) to the specified source (identified by its symbolic name or numerical index).
   * @category sourceOutput
   * @param sourceOutput The numerical index of the recording stream to move.
-  * @param source The numerical index of the source to move the recording stream to.
+  * @param source The symbolic name or numerical index of the source to move the recording stream to.
   */
-  async moveSourceOutput (sourceOutput: number, source: number): Promise<SourceOutput> {
+  async moveSourceOutput (sourceOutput: number, source: number | string): Promise<Status> {
     const query: PAPacket = MoveSourceOutput.query(this.requestId(), sourceOutput, source)
     return await this.sendRequest(query)
   }
 
+  /**
+  * Mutes or unmutes the specified recording stream (identified by its numerical index).
+  * @category sourceOutput
+  * @param sourceOutput The numerical index of the recording stream to mute or unmute.
+  * @param mute `true` to mute the recording stream, `false` to unmute it.
+  */
+  async setSourceOutputMute (sourceOutput: number, mute: boolean): Promise<Status> {
+    const query: PAPacket = SetSourceOutputMute.query(this.requestId(), sourceOutput, mute)
+    return await this.sendRequest(query)
+  }
+
+  /**
+  * Sets the volume of the specified recording stream (identified by its numerical index).
+  * Rejects if the stream has no volume or its volume is read-only, e.g. passthrough streams.
+  * @category sourceOutput
+  * @param sourceOutput The numerical index of the recording stream to set the volume of.
+  * @param volume The volume to set on every channel, or a `ChannelVolume` with one volume per channel of the stream.
+  * @param unit The unit of the volume, raw `pa_volume_t` values by default.
+  */
+  async setSourceOutputVolume (sourceOutput: number, volume: number | ChannelVolume, unit: PAVolumeUnit = PAVolumeUnit.RAW): Promise<VolumeInfo> {
+    const info: SourceOutput = await this.getSourceOutput(sourceOutput)
+    if (info.hasVolume === false || info.isVolumeWritable === false) {
+      throw new Error(`Volume of source output ${sourceOutput} is read-only.`)
+    }
+    const channelVolume: ChannelVolume = this.toChannelVolume(volume, unit, info.channelMap)
+    const query: PAPacket = SetSourceOutputVolume.query(this.requestId(), sourceOutput, channelVolume)
+    return await this.sendRequest(query)
+  }
+
+  /**
+  * Kills the specified recording stream (identified by its numerical index), disconnecting it from its source.
+  * Rejects with the server's error, e.g. `No such entity`, if the stream does not exist.
+  * @category sourceOutput
+  * @param sourceOutput The numerical index of the recording stream to kill.
+  */
+  async killSourceOutput (sourceOutput: number): Promise<Status> {
+    const query: PAPacket = KillSourceOutput.query(this.requestId(), sourceOutput)
+    const reply: Status = await this.sendRequest(query)
+    if (!reply.success) {
+      throw new Error(reply.error)
+    }
+    return reply
+  }
+
   /**
   * Gets details for the module instance identified by the specified numeric index.
   * @category module
@@ -356,35 +762,427 @@ export default class PulseAudio extends EventEmitter {
     return await this.sendRequest(query)
   }
 
+  /**
+  * Gets details for the card identified by the specified symbolic name or numeric index, including its profiles and ports.
+  * @category card
+  * @param card The symbolic name or numerical index of the card to get details for.
+  */
+  async getCard (card: number | string): Promise<Card> {
+    const query: PAPacket = GetCard.query(this.requestId(), card)
+    return await this.sendRequest(query)
+  }
+
+  /**
+  * Gets details for all cards.
+  * @category card
+  */
+  async getCardList (): Promise<Card[]> {
+    const query: PAPacket = GetCardList.query(this.requestId())
+    return await this.sendRequest(query)
+  }
+
+  /**
+  * Switches the active profile of the specified card (identified by its symbolic name or numerical index).
+  *
+  * @example
+  * ```typescript
+  * // Switch a Bluetooth headset to the headset (HFP) profile to use its microphone
+  * await client.setCardProfile('bluez_card.00_1B_66_A1_B2_C3', 'headset-head-unit')
+  * ```
+  * @category card
+  * @param card The symbolic name or numerical index of the card.
+  * @param profile The name of the profile to activate, as listed in `Card.profiles`.
+  */
+  async setCardProfile (card: number | string, profile: string): Promise<Status> {
+    const query: PAPacket = SetCardProfile.query(this.requestId(), card, profile)
+    return await this.sendRequest(query)
+  }
+
+  /**
+  * Sets the latency offset of a card's port, which the server adds to the latency of the sinks and sources using it.
+  * Useful to keep audio in sync with video on outputs with extra delay, such as HDMI or Bluetooth. Check `CardPort.latencyOffset` for the current offset.
+  *
+  * @example
+  * ```typescript
+  * // Delay audio on the HDMI output by 120 ms
+  * await client.setPortLatencyOffset('alsa_card.pci-0000_01_00.1', 'hdmi-output-0', 120_000)
+  * ```
+  * @category card
+  * @param card The symbolic name or numerical index of the card.
+  * @param port The name of the port, as listed in `Card.ports`.
+  * @param offset The latency offset in microseconds, negative values are allowed.
+  */
+  async setPortLatencyOffset (card: number | string, port: string, offset: number | bigint): Promise<Status> {
+    const info: Card = await this.getCard(card)
+    if (!info.ports.some(p => p.name === port)) {
+      throw new Error(`Card ${info.name} has no port named ${port}.`)
+    }
+    const query: PAPacket = SetPortLatencyOffset.query(this.requestId(), card, port, BigInt(offset))
+    return await this.sendRequest(query)
+  }
+
+  /**
+  * Creates a playback stream on the server. The returned stream is a Node.js `Writable`, raw PCM data written to it is sent to the server as it requests it.
+  *
+  * @example
+  * ```typescript
+  * const stream = await client.createPlaybackStream({
+  *   sampleSpec: { format: PASampleFormat.S16LE, channels: 2, rate: 44100 },
+  *   sink: 'alsa_output.dac.stereo-fallback',
+  *   properties: [['media.name', 'Notification']]
+  * })
+  * fs.createReadStream('notification.raw').pipe(stream)
+  * ```
+  * @category playbackStream
+  * @param options Sample spec, channel map, target sink, buffer attributes, initial volume, stream flags and properties of the new stream.
+  */
+  async createPlaybackStream (options: PlaybackStreamOptions): Promise<PAPlaybackStream> {
+    const query: PAPacket = CreatePlaybackStream.query(this.requestId(), options)
+    const reply = await this.sendRequest(query)
+    if (reply.success === false) {
+      throw new Error(`Failed to create playback stream: ${reply.error as string}`)
+    }
+
+    const stream: PAPlaybackStream = new PAPlaybackStream(this, reply as PlaybackStreamInfo, this.writeMemblock.bind(this))
+    stream.flags = options.flags ?? PAStreamFlags.NOFLAGS
+    stream.isCorked = (stream.flags & PAStreamFlags.START_CORKED) !== 0
+    this.playbackStreams.push(stream)
+    return stream
+  }
+
+  /**
+  * Deletes the specified playback stream from the server and destroys it. Data that has not been played yet is discarded.
+  * @category playbackStream
+  * @param stream The playback stream to delete.
+  */
+  async deletePlaybackStream (stream: PAPlaybackStream): Promise<Status> {
+    stream.deleted = true
+    this.playbackStreams = this.playbackStreams.filter(s => s !== stream)
+    const query: PAPacket = DeletePlaybackStream.query(this.requestId(), stream.channel)
+    const reply: Status = await this.sendRequest(query)
+    stream.destroy()
+    return reply
+  }
+
+  /**
+  * Pauses (corks) or resumes (uncorks) the specified playback stream.
+  * @category playbackStream
+  * @param stream The playback stream to cork or uncork.
+  * @param cork Whether to pause the stream (`true`) or resume it (`false`).
+  */
+  async corkPlaybackStream (stream: PAPlaybackStream, cork: boolean): Promise<Status> {
+    const query: PAPacket = CorkPlaybackStream.query(this.requestId(), stream.channel, cork)
+    const reply: Status = await this.sendRequest(query)
+    if (reply.success) stream.isCorked = cork
+    return reply
+  }
+
+  /**
+  * Discards the data buffered on the server for the specified playback stream.
+  * @category playbackStream
+  * @param stream The playback stream to flush.
+  */
+  async flushPlaybackStream (stream: PAPlaybackStream): Promise<Status> {
+    const query: PAPacket = FlushPlaybackStream.query(this.requestId(), stream.channel)
+    return await this.sendRequest(query)
+  }
+
+  /**
+  * Gets the timing info of the specified playback stream, including its latency: how long it takes for data written to the stream now to be heard.
+  *
+  * @example
+  * ```typescript
+  * const { latency } = await client.getPlaybackLatency(stream)
+  * console.log(`Audio is late by ${Number(latency) / 1000} ms`)
+  * ```
+  * @category playbackStream
+  * @param stream The playback stream to get the timing info of.
+  */
+  async getPlaybackLatency (stream: PAPlaybackStream): Promise<TimingInfo> {
+    const query: PAPacket = GetPlaybackLatency.query(this.requestId(), stream.channel, getTimeval())
+    const reply: LatencyInfo = await this.sendRequest(query)
+    return getTimingInfo(reply, getTimeval(), stream)
+  }
+
+  /**
+  * Updates the properties of the specified playback stream on the server, e.g. its `media.role` or `media.title`.
+  * @category playbackStream
+  * @param stream The playback stream to update.
+  * @param mode How the properties are combined with the ones already set, see {@link PAUpdateMode}.
+  * @param properties The properties to set.
+  */
+  async updatePlaybackStreamProperties (stream: PAPlaybackStream, mode: PAUpdateMode, properties: PropListInit): Promise<Status> {
+    const query: PAPacket = UpdatePlaybackStreamProperties.query(this.requestId(), stream.channel, mode, properties)
+    return await this.sendRequest(query)
+  }
+
+  /**
+  * Removes properties of the specified playback stream on the server.
+  * @category playbackStream
+  * @param stream The playback stream to update.
+  * @param keys The keys of the properties to remove.
+  */
+  async removePlaybackStreamProperties (stream: PAPlaybackStream, keys: string[]): Promise<Status> {
+    const query: PAPacket = RemovePlaybackStreamProperties.query(this.requestId(), stream.channel, keys)
+    return await this.sendRequest(query)
+  }
+
+  /**
+  * Waits until the data buffered on the server for the specified playback stream has been played.
+  * @category playbackStream
+  * @param stream The playback stream to drain.
+  */
+  async drainPlaybackStream (stream: PAPlaybackStream): Promise<Status> {
+    const query: PAPacket = DrainPlaybackStream.query(this.requestId(), stream.channel)
+    return await this.sendRequest(query)
+  }
+
+  /**
+  * Creates a record stream on the server. The returned stream is a Node.js `Readable` that yields raw PCM data captured from the source, and can also be consumed as an async iterator.
+  *
+  * @example
+  * ```typescript
+  * const sink = await client.getSink('alsa_output.dac.stereo-fallback')
+  * const stream = await client.createRecordStream({
+  *   sampleSpec: { format: PASampleFormat.S16LE, channels: 2, rate: 44100 },
+  *   source: sink.monitorSourceName,
+  *   bufferAttr: { fragmentSize: 4410 }
+  * })
+  * stream.pipe(fs.createWriteStream('capture.raw'))
+  * ```
+  * @category recordStream
+  * @param options Sample spec, channel map, source to record from, buffer attributes, stream flags (e.g. `PAStreamFlags.PEAK_DETECT`) and properties of the new stream.
+  */
+  async createRecordStream (options: RecordStreamOptions): Promise<PARecordStream> {
+    const query: PAPacket = CreateRecordStream.query(this.requestId(), options)
+    const reply = await this.sendRequest(query)
+    if (reply.success === false) {
+      throw new Error(`Failed to create record stream: ${reply.error as string}`)
+    }
+
+    const stream: PARecordStream = new PARecordStream(this, reply as RecordStreamInfo)
+    stream.flags = options.flags ?? PAStreamFlags.NOFLAGS
+    stream.isCorked = (stream.flags & PAStreamFlags.START_CORKED) !== 0
+    this.recordStreams.push(stream)
+    return stream
+  }
+
+  /**
+  * Deletes the specified record stream from the server and destroys it.
+  * @category recordStream
+  * @param stream The record stream to delete.
+  */
+  async deleteRecordStream (stream: PARecordStream): Promise<Status> {
+    stream.deleted = true
+    this.recordStreams = this.recordStreams.filter(s => s !== stream)
+    const query: PAPacket = DeleteRecordStream.query(this.requestId(), stream.channel)
+    const reply: Status = await this.sendRequest(query)
+    stream.destroy()
+    return reply
+  }
+
+  /**
+  * Pauses (corks) or resumes (uncorks) the specified record stream.
+  * @category recordStream
+  * @param stream The record stream to cork or uncork.
+  * @param cork Whether to pause the stream (`true`) or resume it (`false`).
+  */
+  async corkRecordStream (stream: PARecordStream, cork: boolean): Promise<Status> {
+    const query: PAPacket = CorkRecordStream.query(this.requestId(), stream.channel, cork)
+    const reply: Status = await this.sendRequest(query)
+    if (reply.success) stream.isCorked = cork
+    return reply
+  }
+
+  /**
+  * Discards the data buffered on the server for the specified record stream.
+  * @category recordStream
+  * @param stream The record stream to flush.
+  */
+  async flushRecordStream (stream: PARecordStream): Promise<Status> {
+    const query: PAPacket = FlushRecordStream.query(this.requestId(), stream.channel)
+    return await this.sendRequest(query)
+  }
+
+  /**
+  * Gets the timing info of the specified record stream, including its latency: how long ago the data read from the stream now was captured.
+  * @category recordStream
+  * @param stream The record stream to get the timing info of.
+  */
+  async getRecordLatency (stream: PARecordStream): Promise<TimingInfo> {
+    const query: PAPacket = GetRecordLatency.query(this.requestId(), stream.channel, getTimeval())
+    const reply: LatencyInfo = await this.sendRequest(query)
+    return getTimingInfo(reply, getTimeval(), stream)
+  }
+
+  /**
+  * Updates the properties of the specified record stream on the server, e.g. its `media.role` or `media.title`.
+  * @category recordStream
+  * @param stream The record stream to update.
+  * @param mode How the properties are combined with the ones already set, see {@link PAUpdateMode}.
+  * @param properties The properties to set.
+  */
+  async updateRecordStreamProperties (stream: PARecordStream, mode: PAUpdateMode, properties: PropListInit): Promise<Status> {
+    const query: PAPacket = UpdateRecordStreamProperties.query(this.requestId(), stream.channel, mode, properties)
+    return await this.sendRequest(query)
+  }
+
+  /**
+  * Removes properties of the specified record stream on the server.
+  * @category recordStream
+  * @param stream The record stream to update.
+  * @param keys The keys of the properties to remove.
+  */
+  async removeRecordStreamProperties (stream: PARecordStream, keys: string[]): Promise<Status> {
+    const query: PAPacket = RemoveRecordStreamProperties.query(this.requestId(), stream.channel, keys)
+    return await this.sendRequest(query)
+  }
+
+  /**
+  * Uploads raw PCM data to the server's sample cache so it can be played later with {@link playSample}.
+  *
+  * @example
+  * ```typescript
+  * const pcm = fs.readFileSync('bell.raw')
+  * await client.uploadSample('bell', { format: PASampleFormat.S16LE, channels: 2, rate: 44100 }, pcm)
+  * await client.playSample('bell')
+  *
+  * // Samples with more channels need a channel map unless the AIFF order fits
+  * await client.uploadSample('chime', { format: PASampleFormat.S16LE, channels: 8, rate: 48000 }, pcm8, [], channelMapFromPreset('surround-71'))
+  * ```
+  * @category sample
+  * @param name The name to store the sample under. An existing sample with the same name is replaced.
+  * @param sampleSpec The sample spec of the PCM data.
+  * @param pcm The PCM data, its length must be a multiple of the frame size.
+  * @param properties Properties to attach to the sample.
+  * @param channelMap The channel map of the PCM data. Defaults to the AIFF channel map, which is only defined for up to 6 channels.
+  */
+  async uploadSample (name: string, sampleSpec: SampleSpec, pcm: Buffer, properties: PropListInit = [], channelMap?: ChannelMap): Promise<Status> {
+    const query: PAPacket = CreateUploadStream.query(this.requestId(), name, sampleSpec, channelMap ?? getDefaultChannelMap(sampleSpec), pcm.length, properties)
+    const reply = await this.sendRequest(query)
+    if (reply.success === false) {
+      throw new Error(`Failed to create upload stream: ${reply.error as string}`)
+    }
+
+    const { channel }: UploadStreamInfo = reply
+    for (const memblock of PAMemblock.fromData(channel, pcm)) {
+      this.writeMemblock(memblock)
+    }
+
+    const finish: PAPacket = FinishUploadStream.query(this.requestId(), channel)
+    return await this.sendRequest(finish)
+  }
+
+  /**
+  * Plays a sample from the server's sample cache.
+  * @category sample
+  * @param name The name of the sample to play.
+  * @param sink The symbolic name or numerical index of the sink to play the sample on. Defaults to the default sink.
+  * @param volume The volume to play the sample with. Defaults to the sample's own volume.
+  * @param properties Properties to attach to the sink input created to play the sample.
+  */
+  async playSample (name: string, sink?: number | string, volume?: number, properties?: PropListInit): Promise<Index> {
+    const query: PAPacket = PlaySample.query(this.requestId(), name, sink, volume, properties)
+    return await this.sendRequest(query)
+  }
+
+  /**
+  * Removes a sample from the server's sample cache.
+  * @category sample
+  * @param name The name of the sample to remove.
+  */
+  async removeSample (name: string): Promise<Status> {
+    const query: PAPacket = RemoveSample.query(this.requestId(), name)
+    return await this.sendRequest(query)
+  }
+
+  /**
+  * Gets details for the sample identified by the specified name or numeric index.
+  * @category sample
+  * @param sample The name or numerical index of the sample to get details for.
+  */
+  async getSample (sample: number | string): Promise<Sample> {
+    const query: PAPacket = GetSample.query(this.requestId(), sample)
+    return await this.sendRequest(query)
+  }
+
+  /**
+  * Gets details for all samples in the server's sample cache.
+  * @category sample
+  */
+  async getSampleList (): Promise<Sample[]> {
+    const query: PAPacket = GetSampleList.query(this.requestId())
+    return await this.sendRequest(query)
+  }
+
   // Private methods
   private onReadable (): void {
-    // Don't read if we don't have at least 10 bytes
-    if (this.socket.readableLength < 10) {
-      console.log('Malformed packet!')
-      const malformed: Buffer = this.socket.read(this.socket.readableLength)
-      console.log(malformed)
+    if (this.socket.readableLength === 0) {
       return
     }
+    this.frames.push(this.socket.read(this.socket.readableLength))
 
-    const chunk: Buffer = this.socket.read(this.socket.readableLength)
+    // Control packets resolve requests and carry server notifications
+    // Memblocks carry record stream data and are routed by channel
+    for (;;) {
+      let frame: PAPacket | PAMemblock | undefined
+      // A frame that can't be read means the connection can't be trusted anymore, so it is closed
+      // instead of throwing from the socket's event handler
+      try {
+        frame = this.frames.next()
+      } catch (error) {
+        this.onConnectionError(error as Error)
+        return
+      }
+      if (frame === undefined) {
+        return
+      }
 
-    // Discard previous chunks if we get a new packet header and stil have pending chunks
-    // This should not happen really, if it does it's probably a bug
-    if (PAPacket.isChunkHeader(chunk) && this.chunks.length > 0) {
-      console.log('WARNING: discarding chunks, this might be a bug...')
-      this.chunks = []
+      if (frame instanceof PAPacket) {
+        this.resolveRequest(frame)
+      } else {
+        this.resolveMemblock(frame)
+      }
     }
+  }
 
-    // Save new chunk
-    this.chunks.push(chunk)
+  private onConnectionError (error: Error): void {
+    for (const request of this.requests) {
+      request.reject(error)
+    }
+    this.requests = []
+    this.disconnect()
+    if (this.listenerCount('error') > 0) {
+      this.emit('error', error)
+    }
+  }
+
+  private resolveMemblock (memblock: PAMemblock): void {
+    const stream: PARecordStream | undefined = this.recordStreams.find(s => s.channel === memblock.channel)
+    stream?.onData(memblock.data)
+  }
+
+  private writeMemblock (memblock: PAMemblock): void {
+    if (!this.connected) {
+      throw new Error('No connection to PulseAudio.')
+    }
+    this.socket.write(memblock.write())
+  }
 
-    // Once we get the entire package fulfill the request promise
-    // Chunks can contain more than one packet so we loop until we are done
-    while (PAPacket.isValidPacket(this.chunks)) {
-      const packet: PAPacket = new PAPacket(Buffer.concat(this.chunks))
-      this.resolveRequest(packet)
-      this.chunks = PAPacket.getChunksSize(this.chunks) === packet.packet.length ? [] : [Buffer.concat(this.chunks).subarray(packet.packet.length)]
+  // Converts a volume to raw values, spreading a single volume over every channel of the channel map
+  private toChannelVolume (volume: number | ChannelVolume, unit: PAVolumeUnit, channelMap: ChannelMap, scale?: VolumeScale): ChannelVolume {
+    const volumes: number[] = typeof volume === 'number' ? new Array(channelMap.channels).fill(volume) : volume.volumes
+    return { channels: volumes.length, volumes: volumes.map(v => toRawVolume(v, unit, scale)) }
+  }
+
+  // The DONT_MOVE flag is only known for our own streams, PipeWire exposes it as a property for every stream
+  // Anything else the server refuses to move is reported by moveSinkInput itself
+  private isSinkInputMovable (sinkInput: SinkInput): boolean {
+    const stream: PAPlaybackStream | undefined = this.playbackStreams.find(s => s.index === sinkInput.index)
+    if (stream !== undefined && (stream.flags & PAStreamFlags.DONT_MOVE) !== 0) {
+      return false
     }
+    return new PropList(sinkInput.properties).get(PAPropKey.NODE_DONT_MOVE) !== 'true'
   }
 
   private requestId (): number {
@@ -410,7 +1208,7 @@ export default class PulseAudio extends EventEmitter {
     switch (reply.command.value) {
       case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_ERROR:
         request = this.requests.find(r => r.id === reply.requestId.value)
-        request?.resolve({ success: false, error: PAError[reply.tags[0].value] })
+        request?.resolve({ success: false, error: PAError[reply.tags[0].value] ?? PAErrorList.PA_ERR_UNKNOWN })
         this.requests = this.requests.filter(r => r.id !== reply.requestId.value)
         break
       case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_REPLY:
@@ -423,8 +1221,102 @@ export default class PulseAudio extends EventEmitter {
         this.emit(event.category, event)
         this.emit('all', event)
         break
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_REQUEST:
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_OVERFLOW:
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_UNDERFLOW:
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_STARTED:
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_PLAYBACK_STREAM_KILLED:
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_PLAYBACK_STREAM_SUSPENDED:
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_PLAYBACK_STREAM_MOVED:
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_PLAYBACK_BUFFER_ATTR_CHANGED:
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_PLAYBACK_STREAM_EVENT:
+        this.resolvePlaybackStreamCommand(reply)
+        break
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_RECORD_STREAM_KILLED:
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_RECORD_STREAM_SUSPENDED:
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_RECORD_STREAM_MOVED:
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_RECORD_BUFFER_ATTR_CHANGED:
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_RECORD_STREAM_EVENT:
+        this.resolveRecordStreamCommand(reply)
+        break
       default:
-        throw new Error(`Reply type ${reply.command.value} not supported. Please report issue.`)
+        // Commands added by newer servers are ignored, the connection itself is still fine
+        break
+    }
+  }
+
+  // https://github.com/pulseaudio/pulseaudio/blob/v15.0/src/pulse/stream.c
+  private resolvePlaybackStreamCommand (command: PAPacket): void {
+    const channel: number = command.tags[0].value
+    const stream: PAPlaybackStream | undefined = this.playbackStreams.find(s => s.channel === channel)
+    if (stream === undefined) {
+      return
+    }
+
+    switch (command.command.value) {
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_REQUEST:
+        stream.onRequest(command.tags[1].value)
+        break
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_OVERFLOW:
+        stream.emit('overflow')
+        break
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_UNDERFLOW:
+        stream.emit('underflow')
+        break
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_STARTED:
+        stream.emit('started')
+        break
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_PLAYBACK_STREAM_KILLED:
+        this.playbackStreams = this.playbackStreams.filter(s => s !== stream)
+        stream.onKilled()
+        break
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_PLAYBACK_STREAM_SUSPENDED:
+        stream.onSuspended(command.tags[1].value)
+        break
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_PLAYBACK_STREAM_MOVED:
+        stream.onMoved(command.tags[1].value, command.tags[2].value, command.tags[3].value)
+        break
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_PLAYBACK_BUFFER_ATTR_CHANGED:
+        stream.bufferAttr = {
+          maxLength: command.tags[1].value,
+          targetLength: command.tags[2].value,
+          prebuffer: command.tags[3].value,
+          minimumRequest: command.tags[4].value
+        }
+        break
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_PLAYBACK_STREAM_EVENT:
+        stream.emit('event', command.tags[1].value, command.tags[2].value)
+        break
+    }
+  }
+
+  private resolveRecordStreamCommand (command: PAPacket): void {
+    const channel: number = command.tags[0].value
+    const stream: PARecordStream | undefined = this.recordStreams.find(s => s.channel === channel)
+    if (stream === undefined) {
+      return
+    }
+
+    switch (command.command.value) {
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_RECORD_STREAM_KILLED:
+        this.recordStreams = this.recordStreams.filter(s => s !== stream)
+        stream.onKilled()
+        break
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_RECORD_STREAM_SUSPENDED:
+        stream.onSuspended(command.tags[1].value)
+        break
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_RECORD_STREAM_MOVED:
+        stream.onMoved(command.tags[1].value, command.tags[2].value, command.tags[3].value)
+        break
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_RECORD_BUFFER_ATTR_CHANGED:
+        stream.bufferAttr = {
+          maxLength: command.tags[1].value,
+          fragmentSize: command.tags[2].value
+        }
+        break
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_RECORD_STREAM_EVENT:
+        stream.emit('event', command.tags[1].value, command.tags[2].value)
+        break
     }
   }
 
@@ -443,21 +1335,69 @@ export default class PulseAudio extends EventEmitter {
       case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_GET_SERVER_INFO:
         retObj = GetServerInfo.reply(reply, this.protocol)
         break
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_STAT:
+        retObj = GetStats.reply(reply, this.protocol)
+        break
       case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_SUBSCRIBE:
         retObj = Subscribe.reply(reply, this.protocol)
         break
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_SET_DEFAULT_SINK:
+        retObj = SetDefaultSink.reply(reply, this.protocol)
+        break
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_SET_DEFAULT_SOURCE:
+        retObj = SetDefaultSource.reply(reply, this.protocol)
+        break
       case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_SET_CLIENT_NAME:
         retObj = SetClientName.reply(reply, this.protocol)
         break
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_GET_CLIENT_INFO:
+        retObj = GetClient.reply(reply, this.protocol)
+        break
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_GET_CLIENT_INFO_LIST:
+        retObj = GetClientList.reply(reply, this.protocol)
+        break
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_KILL_CLIENT:
+        retObj = KillClient.reply(reply, this.protocol)
+        break
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_UPDATE_CLIENT_PROPLIST:
+        retObj = UpdateClientProperties.reply(reply, this.protocol)
+        break
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_REMOVE_CLIENT_PROPLIST:
+        retObj = RemoveClientProperties.reply(reply, this.protocol)
+        break
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_UPDATE_PLAYBACK_STREAM_PROPLIST:
+        retObj = UpdatePlaybackStreamProperties.reply(reply, this.protocol)
+        break
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_REMOVE_PLAYBACK_STREAM_PROPLIST:
+        retObj = RemovePlaybackStreamProperties.reply(reply, this.protocol)
+        break
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_UPDATE_RECORD_STREAM_PROPLIST:
+        retObj = UpdateRecordStreamProperties.reply(reply, this.protocol)
+        break
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_REMOVE_RECORD_STREAM_PROPLIST:
+        retObj = RemoveRecordStreamProperties.reply(reply, this.protocol)
+        break
       case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_GET_SINK_INFO_LIST:
         retObj = GetSinkList.reply(reply, this.protocol)
         break
       case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_GET_SINK_INFO:
         retObj = GetSink.reply(reply, this.protocol)
         break
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_LOOKUP_SINK:
+        retObj = LookupSink.reply(reply, this.protocol)
+        break
       case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_SET_SINK_VOLUME:
         retObj = SetSinkVolume.reply(reply, this.protocol)
         break
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_SET_SINK_MUTE:
+        retObj = SetSinkMute.reply(reply, this.protocol)
+        break
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_SET_SINK_PORT:
+        retObj = SetSinkPort.reply(reply, this.protocol)
+        break
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_SUSPEND_SINK:
+        retObj = SuspendSink.reply(reply, this.protocol)
+        break
       case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_GET_SINK_INPUT_INFO:
         retObj = GetSinkInput.reply(reply, this.protocol)
         break
@@ -467,15 +1407,36 @@ export default class PulseAudio extends EventEmitter {
       case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_MOVE_SINK_INPUT:
         retObj = MoveSinkInput.reply(reply, this.protocol)
         break
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_SET_SINK_INPUT_MUTE:
+        retObj = SetSinkInputMute.reply(reply, this.protocol)
+        break
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_SET_SINK_INPUT_VOLUME:
+        retObj = SetSinkInputVolume.reply(reply, this.protocol)
+        break
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_KILL_SINK_INPUT:
+        retObj = KillSinkInput.reply(reply, this.protocol)
+        break
       case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_GET_SOURCE_INFO:
         retObj = GetSource.reply(reply, this.protocol)
         break
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_LOOKUP_SOURCE:
+        retObj = LookupSource.reply(reply, this.protocol)
+        break
       case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_GET_SOURCE_INFO_LIST:
         retObj = GetSourceList.reply(reply, this.protocol)
         break
       case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_SET_SOURCE_VOLUME:
         retObj = SetSourceVolume.reply(reply, this.protocol)
         break
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_SET_SOURCE_MUTE:
+        retObj = SetSourceMute.reply(reply, this.protocol)
+        break
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_SET_SOURCE_PORT:
+        retObj = SetSourcePort.reply(reply, this.protocol)
+        break
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_SUSPEND_SOURCE:
+        retObj = SuspendSource.reply(reply, this.protocol)
+        break
       case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_GET_SOURCE_OUTPUT_INFO:
         retObj = GetSourceOutput.reply(reply, this.protocol)
         break
@@ -485,6 +1446,15 @@ export default class PulseAudio extends EventEmitter {
       case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_MOVE_SOURCE_OUTPUT:
         retObj = MoveSourceOutput.reply(reply, this.protocol)
         break
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_SET_SOURCE_OUTPUT_MUTE:
+        retObj = SetSourceOutputMute.reply(reply, this.protocol)
+        break
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_SET_SOURCE_OUTPUT_VOLUME:
+        retObj = SetSourceOutputVolume.reply(reply, this.protocol)
+        break
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_KILL_SOURCE_OUTPUT:
+        retObj = KillSourceOutput.reply(reply, this.protocol)
+        break
       case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_GET_MODULE_INFO:
         retObj = GetModule.reply(reply, this.protocol)
         break
@@ -497,6 +1467,69 @@ export default class PulseAudio extends EventEmitter {
       case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_UNLOAD_MODULE:
         retObj = UnloadModule.reply(reply, this.protocol)
         break
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_GET_CARD_INFO:
+        retObj = GetCard.reply(reply, this.protocol)
+        break
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_GET_CARD_INFO_LIST:
+        retObj = GetCardList.reply(reply, this.protocol)
+        break
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_SET_CARD_PROFILE:
+        retObj = SetCardProfile.reply(reply, this.protocol)
+        break
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_SET_PORT_LATENCY_OFFSET:
+        retObj = SetPortLatencyOffset.reply(reply, this.protocol)
+        break
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_CREATE_PLAYBACK_STREAM:
+        retObj = CreatePlaybackStream.reply(reply, this.protocol)
+        break
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_DELETE_PLAYBACK_STREAM:
+        retObj = DeletePlaybackStream.reply(reply, this.protocol)
+        break
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_CORK_PLAYBACK_STREAM:
+        retObj = CorkPlaybackStream.reply(reply, this.protocol)
+        break
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_FLUSH_PLAYBACK_STREAM:
+        retObj = FlushPlaybackStream.reply(reply, this.protocol)
+        break
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_DRAIN_PLAYBACK_STREAM:
+        retObj = DrainPlaybackStream.reply(reply, this.protocol)
+        break
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_GET_PLAYBACK_LATENCY:
+        retObj = GetPlaybackLatency.reply(reply, this.protocol)
+        break
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_CREATE_RECORD_STREAM:
+        retObj = CreateRecordStream.reply(reply, this.protocol)
+        break
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_DELETE_RECORD_STREAM:
+        retObj = DeleteRecordStream.reply(reply, this.protocol)
+        break
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_CORK_RECORD_STREAM:
+        retObj = CorkRecordStream.reply(reply, this.protocol)
+        break
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_FLUSH_RECORD_STREAM:
+        retObj = FlushRecordStream.reply(reply, this.protocol)
+        break
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_GET_RECORD_LATENCY:
+        retObj = GetRecordLatency.reply(reply, this.protocol)
+        break
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_CREATE_UPLOAD_STREAM:
+        retObj = CreateUploadStream.reply(reply, this.protocol)
+        break
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_FINISH_UPLOAD_STREAM:
+        retObj = FinishUploadStream.reply(reply, this.protocol)
+        break
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_PLAY_SAMPLE:
+        retObj = PlaySample.reply(reply, this.protocol)
+        break
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_REMOVE_SAMPLE:
+        retObj = RemoveSample.reply(reply, this.protocol)
+        break
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_GET_SAMPLE_INFO:
+        retObj = GetSample.reply(reply, this.protocol)
+        break
+      case PA_NATIVE_COMMAND_NAMES.PA_COMMAND_GET_SAMPLE_INFO_LIST:
+        retObj = GetSampleList.reply(reply, this.protocol)
+        break
       default:
         throw new Error(`Command ${query.value as string} not supported. Please report issue.`)
     }
@@ -0,0 +1,35 @@
+import { PACommand, PA_NATIVE_COMMAND_NAMES } from '..'
+import PAPacket from '../../packet'
+import { PA_NO_VALUE } from '../../protocol'
+import { Card } from '../../types/pulseaudio'
+import { parseCardPacket } from '.'
+
+interface GetCard extends PACommand<Card> {
+  query: (requestId: number, card: number | string) => PAPacket
+}
+
+// https://github.com/pulseaudio/pulseaudio/blob/v15.0/src/pulse/introspect.c
+const query = (requestId: number, card: number | string): PAPacket => {
+  const packet: PAPacket = new PAPacket()
+  packet.setCommand(PA_NATIVE_COMMAND_NAMES.PA_COMMAND_GET_CARD_INFO)
+  packet.setRequestId(requestId)
+  packet.putU32(typeof card === 'number' ? card : PA_NO_VALUE)
+  packet.putString(typeof card === 'string' ? card : '')
+  return packet
+}
+
+const reply = (packet: PAPacket, protocol: number): Card => {
+  const cards = parseCardPacket(packet, protocol)
+  if (cards.length !== 1) {
+    throw new Error('Expected exactly one card!')
+  }
+  return cards[0]
+}
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+const GetCard: GetCard = {
+  query,
+  reply
+}
+
+export default GetCard
@@ -0,0 +1,28 @@
+import { PACommand, PA_NATIVE_COMMAND_NAMES } from '..'
+import PAPacket from '../../packet'
+import { Card } from '../../types/pulseaudio'
+import { parseCardPacket } from '.'
+
+interface GetCardList extends PACommand<Card[]> {
+  query: (requestId: number) => PAPacket
+}
+
+// https://github.com/pulseaudio/pulseaudio/blob/v15.0/src/pulse/introspect.c
+const query = (requestId: number): PAPacket => {
+  const packet: PAPacket = new PAPacket()
+  packet.setCommand(PA_NATIVE_COMMAND_NAMES.PA_COMMAND_GET_CARD_INFO_LIST)
+  packet.setRequestId(requestId)
+  return packet
+}
+
+const reply = (packet: PAPacket, protocol: number): Card[] => {
+  return parseCardPacket(packet, protocol)
+}
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+const GetCardList: GetCardList = {
+  query,
+  reply
+}
+
+export default GetCardList
@@ -0,0 +1,75 @@
+import PAPacket from '../../packet'
+import { Card, CardPort, CardProfile } from '../../types/pulseaudio'
+
+import GetCard from './getCard'
+import GetCardList from './getCardList'
+import SetCardProfile from './setCardProfile'
+import SetPortLatencyOffset from './setPortLatencyOffset'
+
+export {
+  GetCard,
+  GetCardList,
+  SetCardProfile,
+  SetPortLatencyOffset
+}
+
+// https://github.com/pulseaudio/pulseaudio/blob/v15.0/src/pulse/introspect.c
+export const parseCardPacket = (packet: PAPacket, protocol: number): Card[] => {
+  const cards: Card[] = []
+  const tags = packet.getTagsIterable()
+
+  while (!tags.done) {
+    const card: Card = {
+      index: tags.nextValue(),
+      name: tags.nextValue(),
+      moduleIndex: tags.nextValue(),
+      driverName: tags.nextValue(),
+      profiles: [],
+      activeProfileName: '',
+      properties: [],
+      ports: []
+    }
+
+    const numberProfiles: number = tags.nextValue()
+    for (let index = 0; index < numberProfiles; index++) {
+      const profile: CardProfile = {
+        name: tags.nextValue(),
+        description: tags.nextValue(),
+        sinks: tags.nextValue(),
+        sources: tags.nextValue(),
+        priority: tags.nextValue(),
+        available: tags.nextValue() !== 0
+      }
+      card.profiles.push(profile)
+    }
+
+    card.activeProfileName = tags.nextValue()
+    card.properties = tags.nextValue()
+
+    const numberPorts: number = tags.nextValue()
+    for (let index = 0; index < numberPorts; index++) {
+      const port: CardPort = {
+        name: tags.nextValue(),
+        description: tags.nextValue(),
+        priority: tags.nextValue(),
+        available: tags.nextValue(),
+        direction: tags.nextValue(),
+        properties: tags.nextValue(),
+        profiles: Array.from({ length: tags.nextValue() }, () => tags.nextValue()),
+        latencyOffset: tags.nextValue()
+      }
+
+      // PulseAudio >= v14.0
+      if (protocol >= 34) {
+        port.availabilityGroup = tags.nextValue()
+        port.type = tags.nextValue()
+      }
+
+      card.ports.push(port)
+    }
+
+    cards.push(card)
+  }
+
+  return cards
+}
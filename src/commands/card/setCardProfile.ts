@@ -0,0 +1,31 @@
+import { PACommand, PA_NATIVE_COMMAND_NAMES } from '..'
+import PAPacket from '../../packet'
+import { PA_NO_VALUE } from '../../protocol'
+import { Status } from '../../types/pulseaudio'
+
+interface SetCardProfile extends PACommand<Status> {
+  query: (requestId: number, card: number | string, profile: string) => PAPacket
+}
+
+// https://github.com/pulseaudio/pulseaudio/blob/v15.0/src/pulse/introspect.c
+const query = (requestId: number, card: number | string, profile: string): PAPacket => {
+  const packet: PAPacket = new PAPacket()
+  packet.setCommand(PA_NATIVE_COMMAND_NAMES.PA_COMMAND_SET_CARD_PROFILE)
+  packet.setRequestId(requestId)
+  packet.putU32(typeof card === 'number' ? card : PA_NO_VALUE)
+  packet.putString(typeof card === 'string' ? card : '')
+  packet.putString(profile)
+  return packet
+}
+
+const reply = (_packet: PAPacket, _protocol: number): Status => {
+  return { success: true }
+}
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+const SetCardProfile: SetCardProfile = {
+  query,
+  reply
+}
+
+export default SetCardProfile
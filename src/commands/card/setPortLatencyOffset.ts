@@ -0,0 +1,32 @@
+import { PACommand, PA_NATIVE_COMMAND_NAMES } from '..'
+import PAPacket from '../../packet'
+import { PA_NO_VALUE } from '../../protocol'
+import { Status } from '../../types/pulseaudio'
+
+interface SetPortLatencyOffset extends PACommand<Status> {
+  query: (requestId: number, card: number | string, port: string, offset: bigint) => PAPacket
+}
+
+// https://github.com/pulseaudio/pulseaudio/blob/v15.0/src/pulse/introspect.c
+const query = (requestId: number, card: number | string, port: string, offset: bigint): PAPacket => {
+  const packet: PAPacket = new PAPacket()
+  packet.setCommand(PA_NATIVE_COMMAND_NAMES.PA_COMMAND_SET_PORT_LATENCY_OFFSET)
+  packet.setRequestId(requestId)
+  packet.putU32(typeof card === 'number' ? card : PA_NO_VALUE)
+  packet.putString(typeof card === 'string' ? card : '')
+  packet.putString(port)
+  packet.putS64(offset)
+  return packet
+}
+
+const reply = (_packet: PAPacket, _protocol: number): Status => {
+  return { success: true }
+}
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+const SetPortLatencyOffset: SetPortLatencyOffset = {
+  query,
+  reply
+}
+
+export default SetPortLatencyOffset
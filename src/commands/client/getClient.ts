@@ -0,0 +1,33 @@
+import { PACommand, PA_NATIVE_COMMAND_NAMES } from '..'
+import PAPacket from '../../packet'
+import { Client } from '../../types/pulseaudio'
+import { parseClientPacket } from '.'
+
+interface GetClient extends PACommand<Client> {
+  query: (requestId: number, client: number) => PAPacket
+}
+
+// https://github.com/pulseaudio/pulseaudio/blob/v15.0/src/pulse/introspect.c
+const query = (requestId: number, client: number): PAPacket => {
+  const packet: PAPacket = new PAPacket()
+  packet.setCommand(PA_NATIVE_COMMAND_NAMES.PA_COMMAND_GET_CLIENT_INFO)
+  packet.setRequestId(requestId)
+  packet.putU32(client)
+  return packet
+}
+
+const reply = (packet: PAPacket, protocol: number): Client => {
+  const clients = parseClientPacket(packet, protocol)
+  if (clients.length !== 1) {
+    throw new Error('Expected exactly one client!')
+  }
+  return clients[0]
+}
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+const GetClient: GetClient = {
+  query,
+  reply
+}
+
+export default GetClient
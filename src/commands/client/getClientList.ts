@@ -0,0 +1,28 @@
+import { PACommand, PA_NATIVE_COMMAND_NAMES } from '..'
+import PAPacket from '../../packet'
+import { Client } from '../../types/pulseaudio'
+import { parseClientPacket } from '.'
+
+interface GetClientList extends PACommand<Client[]> {
+  query: (requestId: number) => PAPacket
+}
+
+// https://github.com/pulseaudio/pulseaudio/blob/v15.0/src/pulse/introspect.c
+const query = (requestId: number): PAPacket => {
+  const packet: PAPacket = new PAPacket()
+  packet.setCommand(PA_NATIVE_COMMAND_NAMES.PA_COMMAND_GET_CLIENT_INFO_LIST)
+  packet.setRequestId(requestId)
+  return packet
+}
+
+const reply = (packet: PAPacket, protocol: number): Client[] => {
+  return parseClientPacket(packet, protocol)
+}
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+const GetClientList: GetClientList = {
+  query,
+  reply
+}
+
+export default GetClientList
@@ -1,5 +1,36 @@
+import PAPacket from '../../packet'
+import { Client } from '../../types/pulseaudio'
+
 import SetClientName from './setClientName'
+import GetClient from './getClient'
+import GetClientList from './getClientList'
+import KillClient from './killClient'
+import UpdateClientProperties from './updateClientProperties'
+import RemoveClientProperties from './removeClientProperties'
 
 export {
-  SetClientName
+  SetClientName,
+  GetClient,
+  GetClientList,
+  KillClient,
+  UpdateClientProperties,
+  RemoveClientProperties
+}
+
+// https://github.com/pulseaudio/pulseaudio/blob/v15.0/src/pulse/introspect.c
+export const parseClientPacket = (packet: PAPacket, _protocol: number): Client[] => {
+  const clients: Client[] = []
+  const tags = packet.getTagsIterable()
+
+  while (!tags.done) {
+    const client: Client = {
+      index: tags.nextValue(),
+      name: tags.nextValue(),
+      moduleIndex: tags.nextValue(),
+      driverName: tags.nextValue(),
+      properties: tags.nextValue()
+    }
+    clients.push(client)
+  }
+  return clients
 }
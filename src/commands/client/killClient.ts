@@ -0,0 +1,28 @@
+import { PACommand, PA_NATIVE_COMMAND_NAMES } from '..'
+import PAPacket from '../../packet'
+import { Status } from '../../types/pulseaudio'
+
+interface KillClient extends PACommand<Status> {
+  query: (requestId: number, client: number) => PAPacket
+}
+
+// https://github.com/pulseaudio/pulseaudio/blob/v15.0/src/pulse/introspect.c
+const query = (requestId: number, client: number): PAPacket => {
+  const packet: PAPacket = new PAPacket()
+  packet.setCommand(PA_NATIVE_COMMAND_NAMES.PA_COMMAND_KILL_CLIENT)
+  packet.setRequestId(requestId)
+  packet.putU32(client)
+  return packet
+}
+
+const reply = (_packet: PAPacket, _protocol: number): Status => {
+  return { success: true }
+}
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+const KillClient: KillClient = {
+  query,
+  reply
+}
+
+export default KillClient
@@ -0,0 +1,32 @@
+import { PACommand, PA_NATIVE_COMMAND_NAMES } from '..'
+import PAPacket from '../../packet'
+import { Status } from '../../types/pulseaudio'
+
+interface RemoveClientProperties extends PACommand<Status> {
+  query: (requestId: number, keys: string[]) => PAPacket
+}
+
+// https://github.com/pulseaudio/pulseaudio/blob/v15.0/src/pulse/context.c
+const query = (requestId: number, keys: string[]): PAPacket => {
+  const packet: PAPacket = new PAPacket()
+  packet.setCommand(PA_NATIVE_COMMAND_NAMES.PA_COMMAND_REMOVE_CLIENT_PROPLIST)
+  packet.setRequestId(requestId)
+  for (const key of keys) {
+    packet.putString(key)
+  }
+  // The list of keys ends with a null string
+  packet.putString('')
+  return packet
+}
+
+const reply = (_packet: PAPacket, _protocol: number): Status => {
+  return { success: true }
+}
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+const RemoveClientProperties: RemoveClientProperties = {
+  query,
+  reply
+}
+
+export default RemoveClientProperties
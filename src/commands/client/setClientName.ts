@@ -1,16 +1,19 @@
 import { PACommand, PA_NATIVE_COMMAND_NAMES } from '..'
 import PAPacket from '../../packet'
+import { PropListInit } from '../../proplist'
 import { ClientInfo } from '../../types/pulseaudio'
 
 interface SetClientName extends PACommand<ClientInfo> {
-  query: (requestId: number, name?: string) => PAPacket
+  query: (requestId: number, properties: PropListInit) => PAPacket
 }
 
-const query = (requestId: number, clientName: string): PAPacket => {
+// Since protocol v13 the client sends its whole property list, not only its name
+// https://github.com/pulseaudio/pulseaudio/blob/v15.0/src/pulse/context.c
+const query = (requestId: number, properties: PropListInit): PAPacket => {
   const packet: PAPacket = new PAPacket()
   packet.setCommand(PA_NATIVE_COMMAND_NAMES.PA_COMMAND_SET_CLIENT_NAME)
   packet.setRequestId(requestId)
-  packet.putPropList([['application.name', clientName]])
+  packet.putPropList(properties)
   return packet
 }
 
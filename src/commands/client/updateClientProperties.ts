@@ -0,0 +1,30 @@
+import { PACommand, PA_NATIVE_COMMAND_NAMES } from '..'
+import PAPacket from '../../packet'
+import { PAUpdateMode, PropListInit } from '../../proplist'
+import { Status } from '../../types/pulseaudio'
+
+interface UpdateClientProperties extends PACommand<Status> {
+  query: (requestId: number, mode: PAUpdateMode, properties: PropListInit) => PAPacket
+}
+
+// https://github.com/pulseaudio/pulseaudio/blob/v15.0/src/pulse/context.c
+const query = (requestId: number, mode: PAUpdateMode, properties: PropListInit): PAPacket => {
+  const packet: PAPacket = new PAPacket()
+  packet.setCommand(PA_NATIVE_COMMAND_NAMES.PA_COMMAND_UPDATE_CLIENT_PROPLIST)
+  packet.setRequestId(requestId)
+  packet.putU32(mode)
+  packet.putPropList(properties)
+  return packet
+}
+
+const reply = (_packet: PAPacket, _protocol: number): Status => {
+  return { success: true }
+}
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+const UpdateClientProperties: UpdateClientProperties = {
+  query,
+  reply
+}
+
+export default UpdateClientProperties
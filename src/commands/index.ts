@@ -4,12 +4,20 @@
 // - command implementation --> https://github.com/pulseaudio/pulseaudio/blob/v15.0/src/pulse/introspect.c
 
 import PAPacket from '../packet'
+import { Format } from '../types/pulseaudio'
+import { Iterator } from '../utils/iterator'
 
 export interface PACommand<T> {
   query: (requestId: number, ...args: any[]) => PAPacket
   reply: (packet: PAPacket, protocol: number) => T
 }
 
+// Reads a format list: a u8 count followed by that many format info tags, see pa_tagstruct_get_format_info
+export const readFormats = (tags: Iterator<any>): Format[] => {
+  const count: number = tags.nextValue()
+  return Array.from({ length: count }, () => tags.nextValue())
+}
+
 export const enum PA_NATIVE_COMMAND_NAMES {
   /* Generic commands */
   PA_COMMAND_ERROR,
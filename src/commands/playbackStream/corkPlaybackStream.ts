@@ -0,0 +1,29 @@
+import { PACommand, PA_NATIVE_COMMAND_NAMES } from '..'
+import PAPacket from '../../packet'
+import { Status } from '../../types/pulseaudio'
+
+interface CorkPlaybackStream extends PACommand<Status> {
+  query: (requestId: number, channel: number, cork: boolean) => PAPacket
+}
+
+// https://github.com/pulseaudio/pulseaudio/blob/v15.0/src/pulse/stream.c
+const query = (requestId: number, channel: number, cork: boolean): PAPacket => {
+  const packet: PAPacket = new PAPacket()
+  packet.setCommand(PA_NATIVE_COMMAND_NAMES.PA_COMMAND_CORK_PLAYBACK_STREAM)
+  packet.setRequestId(requestId)
+  packet.putU32(channel)
+  packet.putBoolean(cork)
+  return packet
+}
+
+const reply = (_packet: PAPacket, _protocol: number): Status => {
+  return { success: true }
+}
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+const CorkPlaybackStream: CorkPlaybackStream = {
+  query,
+  reply
+}
+
+export default CorkPlaybackStream
@@ -0,0 +1,63 @@
+import { PACommand, PA_NATIVE_COMMAND_NAMES } from '..'
+import PAPacket from '../../packet'
+import { PA_NO_VALUE, PA_VOLUME_NORM } from '../../protocol'
+import { PAStreamFlags, getDefaultChannelMap } from '../../streams/common'
+import { PlaybackStreamInfo, PlaybackStreamOptions } from '../../types/pulseaudio'
+import { parsePlaybackStreamPacket } from '.'
+
+interface CreatePlaybackStream extends PACommand<PlaybackStreamInfo> {
+  query: (requestId: number, options: PlaybackStreamOptions) => PAPacket
+}
+
+// https://github.com/pulseaudio/pulseaudio/blob/v15.0/src/pulse/stream.c
+const query = (requestId: number, options: PlaybackStreamOptions): PAPacket => {
+  const flags: number = options.flags ?? PAStreamFlags.NOFLAGS
+  const channelMap = options.channelMap ?? getDefaultChannelMap(options.sampleSpec)
+  const volume = options.volume ?? { channels: options.sampleSpec.channels, volumes: new Array(options.sampleSpec.channels).fill(PA_VOLUME_NORM) }
+
+  const packet: PAPacket = new PAPacket()
+  packet.setCommand(PA_NATIVE_COMMAND_NAMES.PA_COMMAND_CREATE_PLAYBACK_STREAM)
+  packet.setRequestId(requestId)
+  packet.putSampleSpec(options.sampleSpec)
+  packet.putChannelMap(channelMap)
+  packet.putU32(typeof options.sink === 'number' ? options.sink : PA_NO_VALUE)
+  packet.putString(typeof options.sink === 'string' ? options.sink : '')
+  packet.putU32(options.bufferAttr?.maxLength ?? PA_NO_VALUE)
+  packet.putBoolean((flags & PAStreamFlags.START_CORKED) !== 0)
+  packet.putU32(options.bufferAttr?.targetLength ?? PA_NO_VALUE)
+  packet.putU32(options.bufferAttr?.prebuffer ?? PA_NO_VALUE)
+  packet.putU32(options.bufferAttr?.minimumRequest ?? PA_NO_VALUE)
+  packet.putU32(0) // sync id
+  packet.putChannelVolume(volume)
+  packet.putBoolean((flags & PAStreamFlags.NO_REMAP_CHANNELS) !== 0)
+  packet.putBoolean((flags & PAStreamFlags.NO_REMIX_CHANNELS) !== 0)
+  packet.putBoolean((flags & PAStreamFlags.FIX_FORMAT) !== 0)
+  packet.putBoolean((flags & PAStreamFlags.FIX_RATE) !== 0)
+  packet.putBoolean((flags & PAStreamFlags.FIX_CHANNELS) !== 0)
+  packet.putBoolean((flags & PAStreamFlags.DONT_MOVE) !== 0)
+  packet.putBoolean((flags & PAStreamFlags.VARIABLE_RATE) !== 0)
+  packet.putBoolean((flags & PAStreamFlags.START_MUTED) !== 0)
+  packet.putBoolean((flags & PAStreamFlags.ADJUST_LATENCY) !== 0)
+  packet.putPropList(options.properties ?? [])
+  packet.putBoolean(options.volume !== undefined)
+  packet.putBoolean((flags & PAStreamFlags.EARLY_REQUESTS) !== 0)
+  packet.putBoolean((flags & (PAStreamFlags.START_MUTED | PAStreamFlags.START_UNMUTED)) !== 0)
+  packet.putBoolean((flags & PAStreamFlags.DONT_INHIBIT_AUTO_SUSPEND) !== 0)
+  packet.putBoolean((flags & PAStreamFlags.FAIL_ON_SUSPEND) !== 0)
+  packet.putBoolean((flags & PAStreamFlags.RELATIVE_VOLUME) !== 0)
+  packet.putBoolean((flags & PAStreamFlags.PASSTHROUGH) !== 0)
+  packet.putFormats([])
+  return packet
+}
+
+const reply = (packet: PAPacket, protocol: number): PlaybackStreamInfo => {
+  return parsePlaybackStreamPacket(packet, protocol)
+}
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+const CreatePlaybackStream: CreatePlaybackStream = {
+  query,
+  reply
+}
+
+export default CreatePlaybackStream
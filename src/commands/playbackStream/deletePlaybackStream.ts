@@ -0,0 +1,27 @@
+import { PACommand, PA_NATIVE_COMMAND_NAMES } from '..'
+import PAPacket from '../../packet'
+import { Status } from '../../types/pulseaudio'
+
+interface DeletePlaybackStream extends PACommand<Status> {
+  query: (requestId: number, channel: number) => PAPacket
+}
+
+const query = (requestId: number, channel: number): PAPacket => {
+  const packet: PAPacket = new PAPacket()
+  packet.setCommand(PA_NATIVE_COMMAND_NAMES.PA_COMMAND_DELETE_PLAYBACK_STREAM)
+  packet.setRequestId(requestId)
+  packet.putU32(channel)
+  return packet
+}
+
+const reply = (_packet: PAPacket, _protocol: number): Status => {
+  return { success: true }
+}
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+const DeletePlaybackStream: DeletePlaybackStream = {
+  query,
+  reply
+}
+
+export default DeletePlaybackStream
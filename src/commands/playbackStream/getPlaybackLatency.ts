@@ -0,0 +1,40 @@
+import { PACommand, PA_NATIVE_COMMAND_NAMES } from '..'
+import PAPacket from '../../packet'
+import { LatencyInfo, Timeval } from '../../types/pulseaudio'
+
+interface GetPlaybackLatency extends PACommand<LatencyInfo> {
+  query: (requestId: number, channel: number, now: Timeval) => PAPacket
+}
+
+// https://github.com/pulseaudio/pulseaudio/blob/v15.0/src/pulse/stream.c
+const query = (requestId: number, channel: number, now: Timeval): PAPacket => {
+  const packet: PAPacket = new PAPacket()
+  packet.setCommand(PA_NATIVE_COMMAND_NAMES.PA_COMMAND_GET_PLAYBACK_LATENCY)
+  packet.setRequestId(requestId)
+  packet.putU32(channel)
+  packet.putTimeval(now)
+  return packet
+}
+
+const reply = (packet: PAPacket, _protocol: number): LatencyInfo => {
+  const tags = packet.getTagsIterable()
+  return {
+    sinkUsec: tags.nextValue(),
+    sourceUsec: tags.nextValue(),
+    playing: tags.nextValue(),
+    localTimeval: tags.nextValue(),
+    remoteTimeval: tags.nextValue(),
+    writeIndex: tags.nextValue(),
+    readIndex: tags.nextValue(),
+    sinceUnderrun: tags.nextValue(),
+    playingFor: tags.nextValue()
+  }
+}
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+const GetPlaybackLatency: GetPlaybackLatency = {
+  query,
+  reply
+}
+
+export default GetPlaybackLatency
@@ -0,0 +1,52 @@
+import PAPacket from '../../packet'
+import { PlaybackStreamInfo } from '../../types/pulseaudio'
+
+import CreatePlaybackStream from './createPlaybackStream'
+import DeletePlaybackStream from './deletePlaybackStream'
+import CorkPlaybackStream from './corkPlaybackStream'
+import FlushPlaybackStream from './flushPlaybackStream'
+import DrainPlaybackStream from './drainPlaybackStream'
+import GetPlaybackLatency from './getPlaybackLatency'
+import UpdatePlaybackStreamProperties from './updatePlaybackStreamProperties'
+import RemovePlaybackStreamProperties from './removePlaybackStreamProperties'
+
+export {
+  CreatePlaybackStream,
+  DeletePlaybackStream,
+  CorkPlaybackStream,
+  FlushPlaybackStream,
+  DrainPlaybackStream,
+  GetPlaybackLatency,
+  UpdatePlaybackStreamProperties,
+  RemovePlaybackStreamProperties
+}
+
+// https://github.com/pulseaudio/pulseaudio/blob/v15.0/src/pulse/stream.c
+export const parsePlaybackStreamPacket = (packet: PAPacket, protocol: number): PlaybackStreamInfo => {
+  const tags = packet.getTagsIterable()
+
+  const playbackStream: PlaybackStreamInfo = {
+    channel: tags.nextValue(),
+    index: tags.nextValue(),
+    requestedBytes: tags.nextValue(),
+    bufferAttr: {
+      maxLength: tags.nextValue(),
+      targetLength: tags.nextValue(),
+      prebuffer: tags.nextValue(),
+      minimumRequest: tags.nextValue()
+    },
+    sampleSpec: tags.nextValue(),
+    channelMap: tags.nextValue(),
+    sinkIndex: tags.nextValue(),
+    sinkName: tags.nextValue(),
+    isSuspended: tags.nextValue(),
+    sinkLatency: tags.nextValue()
+  }
+
+  // PulseAudio >= v1.0
+  if (protocol >= 21) {
+    playbackStream.format = tags.nextValue()
+  }
+
+  return playbackStream
+}
@@ -0,0 +1,62 @@
+import { PACommand, PA_NATIVE_COMMAND_NAMES } from '..'
+import PAPacket from '../../packet'
+import { PA_NO_VALUE, PA_VOLUME_NORM } from '../../protocol'
+import { PAStreamFlags, getDefaultChannelMap } from '../../streams/common'
+import { RecordStreamInfo, RecordStreamOptions } from '../../types/pulseaudio'
+import { parseRecordStreamPacket } from '.'
+
+interface CreateRecordStream extends PACommand<RecordStreamInfo> {
+  query: (requestId: number, options: RecordStreamOptions) => PAPacket
+}
+
+// https://github.com/pulseaudio/pulseaudio/blob/v15.0/src/pulse/stream.c
+const query = (requestId: number, options: RecordStreamOptions): PAPacket => {
+  const flags: number = options.flags ?? PAStreamFlags.NOFLAGS
+  const channelMap = options.channelMap ?? getDefaultChannelMap(options.sampleSpec)
+  const volume = options.volume ?? { channels: options.sampleSpec.channels, volumes: new Array(options.sampleSpec.channels).fill(PA_VOLUME_NORM) }
+
+  const packet: PAPacket = new PAPacket()
+  packet.setCommand(PA_NATIVE_COMMAND_NAMES.PA_COMMAND_CREATE_RECORD_STREAM)
+  packet.setRequestId(requestId)
+  packet.putSampleSpec(options.sampleSpec)
+  packet.putChannelMap(channelMap)
+  packet.putU32(typeof options.source === 'number' ? options.source : PA_NO_VALUE)
+  packet.putString(typeof options.source === 'string' ? options.source : '')
+  packet.putU32(options.bufferAttr?.maxLength ?? PA_NO_VALUE)
+  packet.putBoolean((flags & PAStreamFlags.START_CORKED) !== 0)
+  packet.putU32(options.bufferAttr?.fragmentSize ?? PA_NO_VALUE)
+  packet.putBoolean((flags & PAStreamFlags.NO_REMAP_CHANNELS) !== 0)
+  packet.putBoolean((flags & PAStreamFlags.NO_REMIX_CHANNELS) !== 0)
+  packet.putBoolean((flags & PAStreamFlags.FIX_FORMAT) !== 0)
+  packet.putBoolean((flags & PAStreamFlags.FIX_RATE) !== 0)
+  packet.putBoolean((flags & PAStreamFlags.FIX_CHANNELS) !== 0)
+  packet.putBoolean((flags & PAStreamFlags.DONT_MOVE) !== 0)
+  packet.putBoolean((flags & PAStreamFlags.VARIABLE_RATE) !== 0)
+  packet.putBoolean((flags & PAStreamFlags.PEAK_DETECT) !== 0)
+  packet.putBoolean((flags & PAStreamFlags.ADJUST_LATENCY) !== 0)
+  packet.putPropList(options.properties ?? [])
+  packet.putU32(options.directOnInput ?? PA_NO_VALUE)
+  packet.putBoolean((flags & PAStreamFlags.EARLY_REQUESTS) !== 0)
+  packet.putBoolean((flags & PAStreamFlags.DONT_INHIBIT_AUTO_SUSPEND) !== 0)
+  packet.putBoolean((flags & PAStreamFlags.FAIL_ON_SUSPEND) !== 0)
+  packet.putFormats([])
+  packet.putChannelVolume(volume)
+  packet.putBoolean((flags & PAStreamFlags.START_MUTED) !== 0)
+  packet.putBoolean(options.volume !== undefined)
+  packet.putBoolean((flags & (PAStreamFlags.START_MUTED | PAStreamFlags.START_UNMUTED)) !== 0)
+  packet.putBoolean((flags & PAStreamFlags.RELATIVE_VOLUME) !== 0)
+  packet.putBoolean((flags & PAStreamFlags.PASSTHROUGH) !== 0)
+  return packet
+}
+
+const reply = (packet: PAPacket, protocol: number): RecordStreamInfo => {
+  return parseRecordStreamPacket(packet, protocol)
+}
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+const CreateRecordStream: CreateRecordStream = {
+  query,
+  reply
+}
+
+export default CreateRecordStream
@@ -0,0 +1,47 @@
+import PAPacket from '../../packet'
+import { RecordStreamInfo } from '../../types/pulseaudio'
+
+import CreateRecordStream from './createRecordStream'
+import DeleteRecordStream from './deleteRecordStream'
+import CorkRecordStream from './corkRecordStream'
+import FlushRecordStream from './flushRecordStream'
+import GetRecordLatency from './getRecordLatency'
+import UpdateRecordStreamProperties from './updateRecordStreamProperties'
+import RemoveRecordStreamProperties from './removeRecordStreamProperties'
+
+export {
+  CreateRecordStream,
+  DeleteRecordStream,
+  CorkRecordStream,
+  FlushRecordStream,
+  GetRecordLatency,
+  UpdateRecordStreamProperties,
+  RemoveRecordStreamProperties
+}
+
+// https://github.com/pulseaudio/pulseaudio/blob/v15.0/src/pulse/stream.c
+export const parseRecordStreamPacket = (packet: PAPacket, protocol: number): RecordStreamInfo => {
+  const tags = packet.getTagsIterable()
+
+  const recordStream: RecordStreamInfo = {
+    channel: tags.nextValue(),
+    index: tags.nextValue(),
+    bufferAttr: {
+      maxLength: tags.nextValue(),
+      fragmentSize: tags.nextValue()
+    },
+    sampleSpec: tags.nextValue(),
+    channelMap: tags.nextValue(),
+    sourceIndex: tags.nextValue(),
+    sourceName: tags.nextValue(),
+    isSuspended: tags.nextValue(),
+    sourceLatency: tags.nextValue()
+  }
+
+  // PulseAudio >= v1.0
+  if (protocol >= 22) {
+    recordStream.format = tags.nextValue()
+  }
+
+  return recordStream
+}
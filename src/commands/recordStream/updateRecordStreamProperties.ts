@@ -0,0 +1,31 @@
+import { PACommand, PA_NATIVE_COMMAND_NAMES } from '..'
+import PAPacket from '../../packet'
+import { PAUpdateMode, PropListInit } from '../../proplist'
+import { Status } from '../../types/pulseaudio'
+
+interface UpdateRecordStreamProperties extends PACommand<Status> {
+  query: (requestId: number, channel: number, mode: PAUpdateMode, properties: PropListInit) => PAPacket
+}
+
+// https://github.com/pulseaudio/pulseaudio/blob/v15.0/src/pulse/stream.c
+const query = (requestId: number, channel: number, mode: PAUpdateMode, properties: PropListInit): PAPacket => {
+  const packet: PAPacket = new PAPacket()
+  packet.setCommand(PA_NATIVE_COMMAND_NAMES.PA_COMMAND_UPDATE_RECORD_STREAM_PROPLIST)
+  packet.setRequestId(requestId)
+  packet.putU32(channel)
+  packet.putU32(mode)
+  packet.putPropList(properties)
+  return packet
+}
+
+const reply = (_packet: PAPacket, _protocol: number): Status => {
+  return { success: true }
+}
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+const UpdateRecordStreamProperties: UpdateRecordStreamProperties = {
+  query,
+  reply
+}
+
+export default UpdateRecordStreamProperties
@@ -0,0 +1,36 @@
+import { PACommand, PA_NATIVE_COMMAND_NAMES } from '..'
+import PAPacket from '../../packet'
+import { PropListInit } from '../../proplist'
+import { ChannelMap, SampleSpec, UploadStreamInfo } from '../../types/pulseaudio'
+
+interface CreateUploadStream extends PACommand<UploadStreamInfo> {
+  query: (requestId: number, name: string, sampleSpec: SampleSpec, channelMap: ChannelMap, length: number, properties?: PropListInit) => PAPacket
+}
+
+// https://github.com/pulseaudio/pulseaudio/blob/v15.0/src/pulse/stream.c
+const query = (requestId: number, name: string, sampleSpec: SampleSpec, channelMap: ChannelMap, length: number, properties: PropListInit = []): PAPacket => {
+  const packet: PAPacket = new PAPacket()
+  packet.setCommand(PA_NATIVE_COMMAND_NAMES.PA_COMMAND_CREATE_UPLOAD_STREAM)
+  packet.setRequestId(requestId)
+  packet.putString(name)
+  packet.putSampleSpec(sampleSpec)
+  packet.putChannelMap(channelMap)
+  packet.putU32(length)
+  packet.putPropList(properties)
+  return packet
+}
+
+const reply = (packet: PAPacket, _protocol: number): UploadStreamInfo => {
+  return {
+    channel: packet.tags[0].value,
+    requestedBytes: packet.tags[1].value
+  }
+}
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+const CreateUploadStream: CreateUploadStream = {
+  query,
+  reply
+}
+
+export default CreateUploadStream
@@ -0,0 +1,35 @@
+import { PACommand, PA_NATIVE_COMMAND_NAMES } from '..'
+import PAPacket from '../../packet'
+import { Sample } from '../../types/pulseaudio'
+import { PA_NO_VALUE } from '../../protocol'
+import { parseSamplePacket } from '.'
+
+interface GetSample extends PACommand<Sample> {
+  query: (requestId: number, sample: number | string) => PAPacket
+}
+
+// https://github.com/pulseaudio/pulseaudio/blob/v15.0/src/pulse/introspect.c
+const query = (requestId: number, sample: number | string): PAPacket => {
+  const packet: PAPacket = new PAPacket()
+  packet.setCommand(PA_NATIVE_COMMAND_NAMES.PA_COMMAND_GET_SAMPLE_INFO)
+  packet.setRequestId(requestId)
+  packet.putU32(typeof sample === 'number' ? sample : PA_NO_VALUE)
+  packet.putString(typeof sample === 'string' ? sample : '')
+  return packet
+}
+
+const reply = (packet: PAPacket, protocol: number): Sample => {
+  const samples = parseSamplePacket(packet, protocol)
+  if (samples.length !== 1) {
+    throw new Error('Expected exactly one sample!')
+  }
+  return samples[0]
+}
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+const GetSample: GetSample = {
+  query,
+  reply
+}
+
+export default GetSample
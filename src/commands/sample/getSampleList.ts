@@ -0,0 +1,27 @@
+import { PACommand, PA_NATIVE_COMMAND_NAMES } from '..'
+import PAPacket from '../../packet'
+import { Sample } from '../../types/pulseaudio'
+import { parseSamplePacket } from '.'
+
+interface GetSampleList extends PACommand<Sample[]> {
+  query: (requestId: number) => PAPacket
+}
+
+const query = (requestId: number): PAPacket => {
+  const packet: PAPacket = new PAPacket()
+  packet.setCommand(PA_NATIVE_COMMAND_NAMES.PA_COMMAND_GET_SAMPLE_INFO_LIST)
+  packet.setRequestId(requestId)
+  return packet
+}
+
+const reply = (packet: PAPacket, protocol: number): Sample[] => {
+  return parseSamplePacket(packet, protocol)
+}
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+const GetSampleList: GetSampleList = {
+  query,
+  reply
+}
+
+export default GetSampleList
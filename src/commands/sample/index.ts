@@ -0,0 +1,43 @@
+import PAPacket from '../../packet'
+import { Sample } from '../../types/pulseaudio'
+
+import CreateUploadStream from './createUploadStream'
+import FinishUploadStream from './finishUploadStream'
+import PlaySample from './playSample'
+import RemoveSample from './removeSample'
+import GetSample from './getSample'
+import GetSampleList from './getSampleList'
+
+export {
+  CreateUploadStream,
+  FinishUploadStream,
+  PlaySample,
+  RemoveSample,
+  GetSample,
+  GetSampleList
+}
+
+// https://github.com/pulseaudio/pulseaudio/blob/v15.0/src/pulse/introspect.c
+export const parseSamplePacket = (packet: PAPacket, _protocol: number): Sample[] => {
+  const samples: Sample[] = []
+  const tags = packet.getTagsIterable()
+
+  while (!tags.done) {
+    const sample: Sample = {
+      index: tags.nextValue(),
+      name: tags.nextValue(),
+      channelVolume: tags.nextValue(),
+      duration: tags.nextValue(),
+      sampleSpec: tags.nextValue(),
+      channelMap: tags.nextValue(),
+      bytes: tags.nextValue(),
+      isLazy: tags.nextValue(),
+      filename: tags.nextValue(),
+      properties: tags.nextValue()
+    }
+
+    samples.push(sample)
+  }
+
+  return samples
+}
@@ -0,0 +1,36 @@
+import { PACommand, PA_NATIVE_COMMAND_NAMES } from '..'
+import PAPacket from '../../packet'
+import { PropListInit } from '../../proplist'
+import { PA_NO_VALUE } from '../../protocol'
+import { Index } from '../../types/pulseaudio'
+
+interface PlaySample extends PACommand<Index> {
+  query: (requestId: number, name: string, sink?: number | string, volume?: number, properties?: PropListInit) => PAPacket
+}
+
+// https://github.com/pulseaudio/pulseaudio/blob/v15.0/src/pulse/scache.c
+const query = (requestId: number, name: string, sink: number | string = '', volume: number = PA_NO_VALUE, properties: PropListInit = []): PAPacket => {
+  const packet: PAPacket = new PAPacket()
+  packet.setCommand(PA_NATIVE_COMMAND_NAMES.PA_COMMAND_PLAY_SAMPLE)
+  packet.setRequestId(requestId)
+  packet.putU32(typeof sink === 'number' ? sink : PA_NO_VALUE)
+  packet.putString(typeof sink === 'string' ? sink : '')
+  packet.putU32(volume)
+  packet.putString(name)
+  packet.putPropList(properties)
+  return packet
+}
+
+const reply = (packet: PAPacket, _protocol: number): Index => {
+  return {
+    index: packet.tags[0].value
+  }
+}
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+const PlaySample: PlaySample = {
+  query,
+  reply
+}
+
+export default PlaySample
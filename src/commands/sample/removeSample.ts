@@ -0,0 +1,28 @@
+import { PACommand, PA_NATIVE_COMMAND_NAMES } from '..'
+import PAPacket from '../../packet'
+import { Status } from '../../types/pulseaudio'
+
+interface RemoveSample extends PACommand<Status> {
+  query: (requestId: number, name: string) => PAPacket
+}
+
+// https://github.com/pulseaudio/pulseaudio/blob/v15.0/src/pulse/scache.c
+const query = (requestId: number, name: string): PAPacket => {
+  const packet: PAPacket = new PAPacket()
+  packet.setCommand(PA_NATIVE_COMMAND_NAMES.PA_COMMAND_REMOVE_SAMPLE)
+  packet.setRequestId(requestId)
+  packet.putString(name)
+  return packet
+}
+
+const reply = (_packet: PAPacket, _protocol: number): Status => {
+  return { success: true }
+}
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+const RemoveSample: RemoveSample = {
+  query,
+  reply
+}
+
+export default RemoveSample
@@ -0,0 +1,34 @@
+import { PACommand, PA_NATIVE_COMMAND_NAMES } from '..'
+import PAPacket from '../../packet'
+import { StatInfo } from '../../types/pulseaudio'
+
+interface GetStats extends PACommand<StatInfo> {
+  query: (requestId: number) => PAPacket
+}
+
+// https://github.com/pulseaudio/pulseaudio/blob/v15.0/src/pulse/introspect.c
+const query = (requestId: number): PAPacket => {
+  const packet: PAPacket = new PAPacket()
+  packet.setCommand(PA_NATIVE_COMMAND_NAMES.PA_COMMAND_STAT)
+  packet.setRequestId(requestId)
+  return packet
+}
+
+const reply = (packet: PAPacket, _protocol: number): StatInfo => {
+  const tags = packet.getTagsIterable()
+  return {
+    memblockTotal: tags.nextValue(),
+    memblockTotalSize: tags.nextValue(),
+    memblockAllocated: tags.nextValue(),
+    memblockAllocatedSize: tags.nextValue(),
+    sampleCacheSize: tags.nextValue()
+  }
+}
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+const GetStats: GetStats = {
+  query,
+  reply
+}
+
+export default GetStats
@@ -2,12 +2,18 @@ import { ServerInfo } from '../..'
 import PAPacket from '../../packet'
 import Authenticate from './authenticate'
 import GetServerInfo from './getServerInfo'
+import GetStats from './getStats'
 import Subscribe from './subscribe'
+import SetDefaultSink from './setDefaultSink'
+import SetDefaultSource from './setDefaultSource'
 
 export {
   Authenticate,
   GetServerInfo,
-  Subscribe
+  GetStats,
+  Subscribe,
+  SetDefaultSink,
+  SetDefaultSource
 }
 
 // https://github.com/pulseaudio/pulseaudio/blob/v15.0/src/pulse/introspect.c#L83
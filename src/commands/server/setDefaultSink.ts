@@ -0,0 +1,28 @@
+import { PACommand, PA_NATIVE_COMMAND_NAMES } from '..'
+import PAPacket from '../../packet'
+import { Status } from '../../types/pulseaudio'
+
+interface SetDefaultSink extends PACommand<Status> {
+  query: (requestId: number, sinkName: string) => PAPacket
+}
+
+// https://github.com/pulseaudio/pulseaudio/blob/v15.0/src/pulse/context.c
+const query = (requestId: number, sinkName: string): PAPacket => {
+  const packet: PAPacket = new PAPacket()
+  packet.setCommand(PA_NATIVE_COMMAND_NAMES.PA_COMMAND_SET_DEFAULT_SINK)
+  packet.setRequestId(requestId)
+  packet.putString(sinkName)
+  return packet
+}
+
+const reply = (_packet: PAPacket, _protocol: number): Status => {
+  return { success: true }
+}
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+const SetDefaultSink: SetDefaultSink = {
+  query,
+  reply
+}
+
+export default SetDefaultSink
@@ -0,0 +1,28 @@
+import { PACommand, PA_NATIVE_COMMAND_NAMES } from '..'
+import PAPacket from '../../packet'
+import { Status } from '../../types/pulseaudio'
+
+interface SetDefaultSource extends PACommand<Status> {
+  query: (requestId: number, sourceName: string) => PAPacket
+}
+
+// https://github.com/pulseaudio/pulseaudio/blob/v15.0/src/pulse/context.c
+const query = (requestId: number, sourceName: string): PAPacket => {
+  const packet: PAPacket = new PAPacket()
+  packet.setCommand(PA_NATIVE_COMMAND_NAMES.PA_COMMAND_SET_DEFAULT_SOURCE)
+  packet.setRequestId(requestId)
+  packet.putString(sourceName)
+  return packet
+}
+
+const reply = (_packet: PAPacket, _protocol: number): Status => {
+  return { success: true }
+}
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+const SetDefaultSource: SetDefaultSource = {
+  query,
+  reply
+}
+
+export default SetDefaultSource
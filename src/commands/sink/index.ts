@@ -1,14 +1,23 @@
 import PAPacket from '../../packet'
+import { readFormats } from '..'
 import { Sink, Port } from '../../types/pulseaudio'
 
 import GetSink from './getSink'
 import GetSinkList from './getSinkList'
 import SetSinkVolume from './setSinkVolume'
+import SetSinkMute from './setSinkMute'
+import SetSinkPort from './setSinkPort'
+import SuspendSink from './suspendSink'
+import LookupSink from './lookupSink'
 
 export {
   GetSink,
   GetSinkList,
-  SetSinkVolume
+  SetSinkVolume,
+  SetSinkMute,
+  SetSinkPort,
+  SuspendSink,
+  LookupSink
 }
 
 // https://github.com/pulseaudio/pulseaudio/blob/v15.0/src/pulse/introspect.c#L136
@@ -59,7 +68,7 @@ export const parseSinkPacket = (packet: PAPacket, protocol: number): Sink[] => {
     }
 
     sink.activePortName = tags.nextValue()
-    sink.formats = tags.nextValue()
+    sink.formats = readFormats(tags)
 
     sinks.push(sink)
   }
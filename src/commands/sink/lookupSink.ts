@@ -0,0 +1,30 @@
+import { PACommand, PA_NATIVE_COMMAND_NAMES } from '..'
+import PAPacket from '../../packet'
+import { Index } from '../../types/pulseaudio'
+
+interface LookupSink extends PACommand<Index> {
+  query: (requestId: number, sink: string) => PAPacket
+}
+
+// https://github.com/pulseaudio/pulseaudio/blob/v15.0/src/pulsecore/protocol-native.c
+const query = (requestId: number, sink: string): PAPacket => {
+  const packet: PAPacket = new PAPacket()
+  packet.setCommand(PA_NATIVE_COMMAND_NAMES.PA_COMMAND_LOOKUP_SINK)
+  packet.setRequestId(requestId)
+  packet.putString(sink)
+  return packet
+}
+
+const reply = (packet: PAPacket, _protocol: number): Index => {
+  return {
+    index: packet.tags[0].value
+  }
+}
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+const LookupSink: LookupSink = {
+  query,
+  reply
+}
+
+export default LookupSink
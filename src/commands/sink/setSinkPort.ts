@@ -0,0 +1,31 @@
+import { PACommand, PA_NATIVE_COMMAND_NAMES } from '..'
+import PAPacket from '../../packet'
+import { PA_NO_VALUE } from '../../protocol'
+import { Status } from '../../types/pulseaudio'
+
+interface SetSinkPort extends PACommand<Status> {
+  query: (requestId: number, sink: number | string, port: string) => PAPacket
+}
+
+// https://github.com/pulseaudio/pulseaudio/blob/v15.0/src/pulse/introspect.c
+const query = (requestId: number, sink: number | string, port: string): PAPacket => {
+  const packet: PAPacket = new PAPacket()
+  packet.setCommand(PA_NATIVE_COMMAND_NAMES.PA_COMMAND_SET_SINK_PORT)
+  packet.setRequestId(requestId)
+  packet.putU32(typeof sink === 'number' ? sink : PA_NO_VALUE)
+  packet.putString(typeof sink === 'string' ? sink : '')
+  packet.putString(port)
+  return packet
+}
+
+const reply = (_packet: PAPacket, _protocol: number): Status => {
+  return { success: true }
+}
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+const SetSinkPort: SetSinkPort = {
+  query,
+  reply
+}
+
+export default SetSinkPort
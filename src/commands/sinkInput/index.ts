@@ -4,11 +4,17 @@ import { SinkInput } from '../../types/pulseaudio'
 import GetSinkInput from './getSinkInput'
 import GetSinkInputList from './getSinkInputList'
 import MoveSinkInput from './moveSinkInput'
+import SetSinkInputMute from './setSinkInputMute'
+import SetSinkInputVolume from './setSinkInputVolume'
+import KillSinkInput from './killSinkInput'
 
 export {
   GetSinkInput,
   GetSinkInputList,
-  MoveSinkInput
+  MoveSinkInput,
+  SetSinkInputMute,
+  SetSinkInputVolume,
+  KillSinkInput
 }
 
 export const parseSinkInputPacket = (packet: PAPacket): SinkInput[] => {
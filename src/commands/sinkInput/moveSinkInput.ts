@@ -1,18 +1,20 @@
 import { PACommand, PA_NATIVE_COMMAND_NAMES } from '..'
 import PAPacket from '../../packet'
+import { PA_NO_VALUE } from '../../protocol'
 import { Status } from '../../types/pulseaudio'
 
 interface MoveSinkInput extends PACommand<Status> {
-  query: (requestId: number, sinkInput: number, destSink: number) => PAPacket
+  query: (requestId: number, sinkInput: number, destSink: number | string) => PAPacket
 }
 
-const query = (requestId: number, sinkInputIndex: number, destSinkIndex: number): PAPacket => {
+// https://github.com/pulseaudio/pulseaudio/blob/v15.0/src/pulse/introspect.c
+const query = (requestId: number, sinkInputIndex: number, destSink: number | string): PAPacket => {
   const packet: PAPacket = new PAPacket()
   packet.setCommand(PA_NATIVE_COMMAND_NAMES.PA_COMMAND_MOVE_SINK_INPUT)
   packet.setRequestId(requestId)
   packet.putU32(sinkInputIndex)
-  packet.putU32(destSinkIndex)
-  packet.putString('')
+  packet.putU32(typeof destSink === 'number' ? destSink : PA_NO_VALUE)
+  packet.putString(typeof destSink === 'string' ? destSink : '')
   return packet
 }
 
@@ -0,0 +1,29 @@
+import { PACommand, PA_NATIVE_COMMAND_NAMES } from '..'
+import PAPacket from '../../packet'
+import { Status } from '../../types/pulseaudio'
+
+interface SetSinkInputMute extends PACommand<Status> {
+  query: (requestId: number, sinkInput: number, mute: boolean) => PAPacket
+}
+
+// https://github.com/pulseaudio/pulseaudio/blob/v15.0/src/pulse/introspect.c
+const query = (requestId: number, sinkInput: number, mute: boolean): PAPacket => {
+  const packet: PAPacket = new PAPacket()
+  packet.setCommand(PA_NATIVE_COMMAND_NAMES.PA_COMMAND_SET_SINK_INPUT_MUTE)
+  packet.setRequestId(requestId)
+  packet.putU32(sinkInput)
+  packet.putBoolean(mute)
+  return packet
+}
+
+const reply = (_packet: PAPacket, _protocol: number): Status => {
+  return { success: true }
+}
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+const SetSinkInputMute: SetSinkInputMute = {
+  query,
+  reply
+}
+
+export default SetSinkInputMute
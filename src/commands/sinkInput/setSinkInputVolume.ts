@@ -0,0 +1,29 @@
+import { PACommand, PA_NATIVE_COMMAND_NAMES } from '..'
+import PAPacket from '../../packet'
+import { ChannelVolume, VolumeInfo } from '../../types/pulseaudio'
+
+interface SetSinkInputVolume extends PACommand<VolumeInfo> {
+  query: (requestId: number, sinkInput: number, channelVolumes: ChannelVolume) => PAPacket
+}
+
+// https://github.com/pulseaudio/pulseaudio/blob/v15.0/src/pulse/introspect.c
+const query = (requestId: number, sinkInput: number, channelVolumes: ChannelVolume): PAPacket => {
+  const packet: PAPacket = new PAPacket()
+  packet.setCommand(PA_NATIVE_COMMAND_NAMES.PA_COMMAND_SET_SINK_INPUT_VOLUME)
+  packet.setRequestId(requestId)
+  packet.putU32(sinkInput)
+  packet.putChannelVolume({ channels: channelVolumes.channels, volumes: channelVolumes.volumes.map(v => Math.max(Math.min(v, 0xFFFFFFFE), 0)) })
+  return packet
+}
+
+const reply = (_packet: PAPacket, _protocol: number): VolumeInfo => {
+  return { success: true }
+}
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+const SetSinkInputVolume: SetSinkInputVolume = {
+  query,
+  reply
+}
+
+export default SetSinkInputVolume
@@ -1,14 +1,23 @@
 import PAPacket from '../../packet'
+import { readFormats } from '..'
 import { Source, Port } from '../../types/pulseaudio'
 
 import GetSource from './getSource'
 import GetSourceList from './getSourceList'
 import SetSourceVolume from './setSourceVolume'
+import SetSourceMute from './setSourceMute'
+import SetSourcePort from './setSourcePort'
+import SuspendSource from './suspendSource'
+import LookupSource from './lookupSource'
 
 export {
   GetSource,
   GetSourceList,
-  SetSourceVolume
+  SetSourceVolume,
+  SetSourceMute,
+  SetSourcePort,
+  SuspendSource,
+  LookupSource
 }
 
 // https://github.com/pulseaudio/pulseaudio/blob/v15.0/src/pulse/introspect.c#L136
@@ -59,7 +68,7 @@ export const parseSourcePacket = (packet: PAPacket, protocol: number): Source[]
     }
 
     source.activePortName = tags.nextValue()
-    source.formats = tags.nextValue()
+    source.formats = readFormats(tags)
 
     sources.push(source)
   }
@@ -0,0 +1,30 @@
+import { PACommand, PA_NATIVE_COMMAND_NAMES } from '..'
+import PAPacket from '../../packet'
+import { Index } from '../../types/pulseaudio'
+
+interface LookupSource extends PACommand<Index> {
+  query: (requestId: number, source: string) => PAPacket
+}
+
+// https://github.com/pulseaudio/pulseaudio/blob/v15.0/src/pulsecore/protocol-native.c
+const query = (requestId: number, source: string): PAPacket => {
+  const packet: PAPacket = new PAPacket()
+  packet.setCommand(PA_NATIVE_COMMAND_NAMES.PA_COMMAND_LOOKUP_SOURCE)
+  packet.setRequestId(requestId)
+  packet.putString(source)
+  return packet
+}
+
+const reply = (packet: PAPacket, _protocol: number): Index => {
+  return {
+    index: packet.tags[0].value
+  }
+}
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+const LookupSource: LookupSource = {
+  query,
+  reply
+}
+
+export default LookupSource
@@ -0,0 +1,36 @@
+import { PACommand, PA_NATIVE_COMMAND_NAMES } from '..'
+import PAPacket from '../../packet'
+import { PA_NO_VALUE } from '../../protocol'
+import { Status } from '../../types/pulseaudio'
+
+interface SuspendSource extends PACommand<Status> {
+  query: (requestId: number, source: number | string | null, suspend: boolean) => PAPacket
+}
+
+// https://github.com/pulseaudio/pulseaudio/blob/v15.0/src/pulse/introspect.c
+// A null source applies to all sources, which the server expects as no index and an empty (not null) name
+const query = (requestId: number, source: number | string | null, suspend: boolean): PAPacket => {
+  const packet: PAPacket = new PAPacket()
+  packet.setCommand(PA_NATIVE_COMMAND_NAMES.PA_COMMAND_SUSPEND_SOURCE)
+  packet.setRequestId(requestId)
+  packet.putU32(typeof source === 'number' ? source : PA_NO_VALUE)
+  if (source === null) {
+    packet.putEmptyString()
+  } else {
+    packet.putString(typeof source === 'string' ? source : '')
+  }
+  packet.putBoolean(suspend)
+  return packet
+}
+
+const reply = (_packet: PAPacket, _protocol: number): Status => {
+  return { success: true }
+}
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+const SuspendSource: SuspendSource = {
+  query,
+  reply
+}
+
+export default SuspendSource
@@ -4,11 +4,17 @@ import { SourceOutput } from '../../types/pulseaudio'
 import GetSourceOutput from './getSourceOutput'
 import GetSourceOutputList from './getSourceOutputList'
 import MoveSourceOutput from './moveSourceOutput'
+import SetSourceOutputMute from './setSourceOutputMute'
+import SetSourceOutputVolume from './setSourceOutputVolume'
+import KillSourceOutput from './killSourceOutput'
 
 export {
   GetSourceOutput,
   GetSourceOutputList,
-  MoveSourceOutput
+  MoveSourceOutput,
+  SetSourceOutputMute,
+  SetSourceOutputVolume,
+  KillSourceOutput
 }
 
 // https://github.com/pulseaudio/pulseaudio/blob/v15.0/src/pulse/introspect.c#L1311
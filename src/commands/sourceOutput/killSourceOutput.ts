@@ -0,0 +1,28 @@
+import { PACommand, PA_NATIVE_COMMAND_NAMES } from '..'
+import PAPacket from '../../packet'
+import { Status } from '../../types/pulseaudio'
+
+interface KillSourceOutput extends PACommand<Status> {
+  query: (requestId: number, sourceOutput: number) => PAPacket
+}
+
+// https://github.com/pulseaudio/pulseaudio/blob/v15.0/src/pulse/introspect.c
+const query = (requestId: number, sourceOutput: number): PAPacket => {
+  const packet: PAPacket = new PAPacket()
+  packet.setCommand(PA_NATIVE_COMMAND_NAMES.PA_COMMAND_KILL_SOURCE_OUTPUT)
+  packet.setRequestId(requestId)
+  packet.putU32(sourceOutput)
+  return packet
+}
+
+const reply = (_packet: PAPacket, _protocol: number): Status => {
+  return { success: true }
+}
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+const KillSourceOutput: KillSourceOutput = {
+  query,
+  reply
+}
+
+export default KillSourceOutput
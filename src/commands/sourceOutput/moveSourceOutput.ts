@@ -1,18 +1,20 @@
 import { PACommand, PA_NATIVE_COMMAND_NAMES } from '..'
 import PAPacket from '../../packet'
+import { PA_NO_VALUE } from '../../protocol'
 import { Status } from '../../types/pulseaudio'
 
 interface MoveSourceOutput extends PACommand<Status> {
-  query: (requestId: number, sourceOutput: number, destSource: number) => PAPacket
+  query: (requestId: number, sourceOutput: number, destSource: number | string) => PAPacket
 }
 
-const query = (requestId: number, sourceOutput: number, destSource: number): PAPacket => {
+// https://github.com/pulseaudio/pulseaudio/blob/v15.0/src/pulse/introspect.c
+const query = (requestId: number, sourceOutput: number, destSource: number | string): PAPacket => {
   const packet: PAPacket = new PAPacket()
   packet.setCommand(PA_NATIVE_COMMAND_NAMES.PA_COMMAND_MOVE_SOURCE_OUTPUT)
   packet.setRequestId(requestId)
   packet.putU32(sourceOutput)
-  packet.putU32(destSource)
-  packet.putString('')
+  packet.putU32(typeof destSource === 'number' ? destSource : PA_NO_VALUE)
+  packet.putString(typeof destSource === 'string' ? destSource : '')
   return packet
 }
 
@@ -0,0 +1,29 @@
+import { PACommand, PA_NATIVE_COMMAND_NAMES } from '..'
+import PAPacket from '../../packet'
+import { Status } from '../../types/pulseaudio'
+
+interface SetSourceOutputMute extends PACommand<Status> {
+  query: (requestId: number, sourceOutput: number, mute: boolean) => PAPacket
+}
+
+// https://github.com/pulseaudio/pulseaudio/blob/v15.0/src/pulse/introspect.c
+const query = (requestId: number, sourceOutput: number, mute: boolean): PAPacket => {
+  const packet: PAPacket = new PAPacket()
+  packet.setCommand(PA_NATIVE_COMMAND_NAMES.PA_COMMAND_SET_SOURCE_OUTPUT_MUTE)
+  packet.setRequestId(requestId)
+  packet.putU32(sourceOutput)
+  packet.putBoolean(mute)
+  return packet
+}
+
+const reply = (_packet: PAPacket, _protocol: number): Status => {
+  return { success: true }
+}
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+const SetSourceOutputMute: SetSourceOutputMute = {
+  query,
+  reply
+}
+
+export default SetSourceOutputMute
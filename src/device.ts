@@ -0,0 +1,22 @@
+// PulseAudio sink, source and port definitions
+// See https://github.com/pulseaudio/pulseaudio/blob/v15.0/src/pulse/def.h
+
+/**
+ * Availability of a port, e.g. whether headphones are plugged into a jack.
+ * Ports whose availability can't be detected report `UNKNOWN`.
+ */
+export enum PAPortAvailable {
+  UNKNOWN = 0,
+  NO = 1,
+  YES = 2
+}
+
+/**
+ * State of a sink or source, see `Sink.state` and `Source.state`.
+ * A device is `RUNNING` while a stream plays to (or records from) it and `IDLE` when no stream uses it.
+ */
+export enum PADeviceState {
+  RUNNING = 0,
+  IDLE = 1,
+  SUSPENDED = 2
+}
@@ -0,0 +1,54 @@
+// PulseAudio stream encoding definitions
+// See https://github.com/pulseaudio/pulseaudio/blob/v15.0/src/pulse/format.h
+// and https://github.com/pulseaudio/pulseaudio/blob/v15.0/src/pulse/format.c
+
+/**
+ * Encodings of a stream or device format, see `Format.encoding`.
+ * Anything but `PCM` is compressed audio passed through to the receiver, wrapped as IEC 61937.
+ */
+export enum PAEncoding {
+  ANY = 0,
+  PCM = 1,
+  AC3_IEC61937 = 2,
+  EAC3_IEC61937 = 3,
+  MPEG_IEC61937 = 4,
+  DTS_IEC61937 = 5,
+  MPEG2_AAC_IEC61937 = 6,
+  TRUEHD_IEC61937 = 7,
+  DTSHD_IEC61937 = 8
+}
+
+// Names are the ones pactl prints
+const ENCODINGS: string[] = [
+  'any',
+  'pcm',
+  'ac3-iec61937',
+  'eac3-iec61937',
+  'mpeg-iec61937',
+  'dts-iec61937',
+  'mpeg2-aac-iec61937',
+  'truehd-iec61937',
+  'dtshd-iec61937'
+]
+
+/**
+ * Gets the name of an encoding, e.g. `ac3-iec61937`. Mirrors `pa_encoding_to_string`.
+ */
+export const encodingToString = (encoding: PAEncoding): string => {
+  const name: string | undefined = ENCODINGS[encoding]
+  if (name === undefined) {
+    throw new Error(`Unknown encoding ${encoding}.`)
+  }
+  return name
+}
+
+/**
+ * Parses the name of an encoding. Mirrors `pa_encoding_from_string`.
+ */
+export const parseEncoding = (name: string): PAEncoding => {
+  const encoding: number = ENCODINGS.indexOf(name)
+  if (encoding === -1) {
+    throw new Error(`Unknown encoding "${name}".`)
+  }
+  return encoding
+}
@@ -0,0 +1,81 @@
+// PulseAudio frame demultiplexer
+// https://github.com/pulseaudio/pulseaudio/blob/master/src/pulsecore/pstream.c
+
+import { Buffer } from 'buffer'
+
+import PAPacket from './packet'
+import PAMemblock from './memblock'
+
+// Channel used by control packets, see PA_PACKET_HEADER
+export const PA_CONTROL_CHANNEL = 0xFFFFFFFF
+
+// Frames bigger than this are rejected by the server too, see FRAME_SIZE_MAX_ALLOW
+export const PA_FRAME_SIZE_MAX = 1024 * 1024 * 16
+
+const enum SectionLength {
+  DESCRIPTOR = 20
+}
+const enum SectionIndex {
+  SIZE = 0,
+  CHANNEL = 4,
+  OFFSET = 8,
+  FLAGS = 16
+}
+
+export interface PAFrameDescriptor {
+  length: number
+  channel: number
+  offset: bigint
+  flags: number
+}
+
+// Every frame on the wire starts with a descriptor:
+// - 4 bytes: Size of the payload in bytes
+// - 4 bytes: Channel, PA_CONTROL_CHANNEL for packets or a stream channel for memblocks
+// - 4 bytes: Seek offset (high 32 bits)
+// - 4 bytes: Seek offset (low 32 bits)
+// - 4 bytes: Flags
+// Socket chunks can hold several frames, or only part of one, so
+// incoming data is buffered until a frame is complete
+export default class PAFrameParser {
+  private buffer: Buffer = Buffer.alloc(0)
+
+  get pendingLength (): number {
+    return this.buffer.length
+  }
+
+  push (chunk: Buffer): void {
+    this.buffer = this.buffer.length === 0 ? chunk : Buffer.concat([this.buffer, chunk])
+  }
+
+  // Returns the next complete frame, or undefined if more data is needed
+  next (): PAPacket | PAMemblock | undefined {
+    if (this.buffer.length < SectionLength.DESCRIPTOR) {
+      return undefined
+    }
+
+    const descriptor: PAFrameDescriptor = PAFrameParser.readDescriptor(this.buffer)
+    if (descriptor.length > PA_FRAME_SIZE_MAX) {
+      throw new Error(`Frame size ${descriptor.length} exceeds the maximum of ${PA_FRAME_SIZE_MAX} bytes, connection is corrupted.`)
+    }
+
+    const frameSize: number = SectionLength.DESCRIPTOR + descriptor.length
+    if (this.buffer.length < frameSize) {
+      return undefined
+    }
+
+    const frame: Buffer = this.buffer.subarray(0, frameSize)
+    this.buffer = this.buffer.subarray(frameSize)
+
+    return descriptor.channel === PA_CONTROL_CHANNEL ? new PAPacket(frame) : PAMemblock.read(frame)
+  }
+
+  static readDescriptor (buffer: Buffer): PAFrameDescriptor {
+    return {
+      length: buffer.readUInt32BE(SectionIndex.SIZE),
+      channel: buffer.readUInt32BE(SectionIndex.CHANNEL),
+      offset: buffer.readBigInt64BE(SectionIndex.OFFSET),
+      flags: buffer.readUInt32BE(SectionIndex.FLAGS)
+    }
+  }
+}
@@ -1,19 +1,62 @@
 import PulseAudio, { TCPSocket, UnixSocket } from './client'
+import { PAPlaybackStream, PARecordStream, PAStreamFlags } from './stream'
+import { PADeviceState, PAPortAvailable } from './device'
+import { PASampleFormat, sampleFormatToString, parseSampleFormat, getSampleSize, getFrameSize, getBytesPerSecond, sampleSpecToString, parseSampleSpec } from './sample'
+import { PAChannelPosition, channelPositionToString, channelPositionToPrettyString, parseChannelPosition, channelMapToString, parseChannelMap, PAChannelMapDef, ChannelMapPreset, initChannelMap, channelMapFromPreset } from './channelmap'
+import { PAEncoding, encodingToString, parseEncoding } from './format'
+import { PAUpdateMode, PAPropKey, PropList, PropListInit, MediaRole, DeviceClass, DeviceFormFactor, DeviceBus } from './proplist'
+import {
+  PAVolumeUnit,
+  VolumeScale,
+  getBalance,
+  setBalance,
+  getFade,
+  setFade,
+  remapVolume,
+  toRawVolume,
+  fromRawVolume,
+  volumeToLinear,
+  volumeFromLinear,
+  volumeToDecibels,
+  volumeFromDecibels,
+  volumeToPercent,
+  volumeFromPercent
+} from './volume'
 import {
   AuthInfo,
   ChannelVolume,
   ChannelMap,
+  Card,
+  CardPort,
+  CardProfile,
+  Client,
   ClientInfo,
+  ClientProperties,
   Format,
+  Port,
+  PropListEntries,
+  PropValue,
   SampleSpec,
   ServerInfo,
+  StatInfo,
   Sink,
   SubscribeInfo,
   VolumeInfo,
   Module,
   Source,
   SinkInput,
-  SourceOutput
+  SourceOutput,
+  PlaybackBufferAttr,
+  PlaybackStreamInfo,
+  PlaybackStreamOptions,
+  RecordBufferAttr,
+  RecordStreamInfo,
+  RecordStreamOptions,
+  Sample,
+  StreamMoveResult,
+  Timeval,
+  LatencyInfo,
+  TimingInfo
 } from './types/pulseaudio'
 
 export default PulseAudio
@@ -23,20 +66,89 @@ export {
   AuthInfo,
   ChannelVolume,
   ChannelMap,
+  Card,
+  CardPort,
+  CardProfile,
+  Client,
   ClientInfo,
+  ClientProperties,
   Format,
+  Port,
+  PropListEntries,
+  PropValue,
   SampleSpec,
   ServerInfo,
+  StatInfo,
   Sink,
   Module,
   Source,
   SinkInput,
   SourceOutput,
   SubscribeInfo,
-  VolumeInfo
+  VolumeInfo,
+  PlaybackBufferAttr,
+  PlaybackStreamInfo,
+  PlaybackStreamOptions,
+  RecordBufferAttr,
+  RecordStreamInfo,
+  RecordStreamOptions,
+  Sample,
+  StreamMoveResult,
+  Timeval,
+  LatencyInfo,
+  TimingInfo,
+  PAPlaybackStream,
+  PARecordStream,
+  PAStreamFlags,
+  PADeviceState,
+  PAPortAvailable,
+  PAUpdateMode,
+  PAPropKey,
+  PropList,
+  PASampleFormat,
+  sampleFormatToString,
+  parseSampleFormat,
+  getSampleSize,
+  getFrameSize,
+  getBytesPerSecond,
+  sampleSpecToString,
+  parseSampleSpec,
+  PAChannelPosition,
+  channelPositionToString,
+  channelPositionToPrettyString,
+  parseChannelPosition,
+  channelMapToString,
+  parseChannelMap,
+  PAChannelMapDef,
+  initChannelMap,
+  channelMapFromPreset,
+  PAEncoding,
+  encodingToString,
+  parseEncoding,
+  getBalance,
+  setBalance,
+  getFade,
+  setFade,
+  remapVolume,
+  PAVolumeUnit,
+  toRawVolume,
+  fromRawVolume,
+  volumeToLinear,
+  volumeFromLinear,
+  volumeToDecibels,
+  volumeFromDecibels,
+  volumeToPercent,
+  volumeFromPercent
 }
 
 export type {
   TCPSocket,
-  UnixSocket
+  UnixSocket,
+  VolumeScale,
+  PropListInit,
+  MediaRole,
+  DeviceClass,
+  DeviceFormFactor,
+  DeviceBus,
+  ChannelMapPreset
 }
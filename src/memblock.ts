@@ -0,0 +1,84 @@
+// PulseAudio memblock frames
+// https://github.com/pulseaudio/pulseaudio/blob/master/src/pulsecore/pstream.c
+
+import { Buffer } from 'buffer'
+
+// Largest payload sent in a single frame, matches the default mempool slot size
+export const PA_MEMBLOCK_MAX_SIZE = 0x10000
+
+// See https://github.com/pulseaudio/pulseaudio/blob/v15.0/src/pulse/def.h#L1063
+export const enum PASeekMode {
+  RELATIVE = 0,
+  ABSOLUTE = 1,
+  RELATIVE_ON_READ = 2,
+  RELATIVE_END = 3
+}
+
+const enum SectionLength {
+  DESCRIPTOR = 20
+}
+const enum SectionIndex {
+  SIZE = 0,
+  CHANNEL = 4,
+  OFFSET = 8,
+  FLAGS = 16,
+  DATA = 20
+}
+
+// PulseAudio memblock frame structure by section
+// - 4 bytes: Size of the payload in bytes
+// - 4 bytes: Channel the frame belongs to
+// - 4 bytes: Seek offset (high 32 bits)
+// - 4 bytes: Seek offset (low 32 bits)
+// - 4 bytes: Flags, seek mode in the lowest byte
+// - X bytes: Payload
+export default class PAMemblock {
+  // Raw frame buffer
+  frame: Buffer
+
+  // Parsed frame sections
+  channel: number
+  offset: bigint = BigInt(0)
+  seekMode: PASeekMode = PASeekMode.RELATIVE
+  data: Buffer
+
+  constructor (channel: number, data: Buffer) {
+    this.channel = channel
+    this.data = data
+  }
+
+  write (): Buffer {
+    this.frame = Buffer.allocUnsafe(SectionLength.DESCRIPTOR + this.data.length)
+
+    let offset: number = 0
+    offset = this.frame.writeUInt32BE(this.data.length, offset)
+    offset = this.frame.writeUInt32BE(this.channel, offset)
+    offset = this.frame.writeBigInt64BE(this.offset, offset)
+    offset = this.frame.writeUInt32BE(this.seekMode & 0xFF, offset)
+    this.data.copy(this.frame, offset)
+
+    return this.frame
+  }
+
+  // Read a memblock frame, the buffer must hold at least one complete frame
+  static read (buffer: Buffer): PAMemblock {
+    const length: number = buffer.readUInt32BE(SectionIndex.SIZE)
+    const memblock: PAMemblock = new PAMemblock(
+      buffer.readUInt32BE(SectionIndex.CHANNEL),
+      Buffer.from(buffer.subarray(SectionIndex.DATA, SectionIndex.DATA + length))
+    )
+    memblock.offset = buffer.readBigInt64BE(SectionIndex.OFFSET)
+    memblock.seekMode = buffer.readUInt32BE(SectionIndex.FLAGS) & 0xFF
+    memblock.frame = buffer.subarray(0, SectionIndex.DATA + length)
+    return memblock
+  }
+
+  // Split a payload into frames no bigger than PA_MEMBLOCK_MAX_SIZE
+  static fromData (channel: number, data: Buffer): PAMemblock[] {
+    const memblocks: PAMemblock[] = []
+    for (let offset = 0; offset < data.length; offset += PA_MEMBLOCK_MAX_SIZE) {
+      memblocks.push(new PAMemblock(channel, data.subarray(offset, offset + PA_MEMBLOCK_MAX_SIZE)))
+    }
+    return memblocks
+  }
+}
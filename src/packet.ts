@@ -21,9 +21,13 @@ import {
   PAUsec,
   PAVolume,
   PAFormat,
-  PAU8
+  PAU8,
+  PAS64,
+  PAU64,
+  PATimeval
 } from './tag'
-import { ChannelVolume } from './types/pulseaudio'
+import { ChannelMap, ChannelVolume, Format, PropValue, SampleSpec, Timeval } from './types/pulseaudio'
+import { PropList, PropListInit } from './proplist'
 import { JSONStringify } from './utils/bigInt'
 
 export const PA_PACKET_HEADER: Buffer = Buffer.from([
@@ -161,6 +165,15 @@ export default class PAPacket {
           case PATagType.PA_TAG_FORMAT_INFO.toString().charCodeAt(0):
             tag = new PAFormat(tagsBuffer.subarray(offset))
             break
+          case PATagType.PA_TAG_S64.toString().charCodeAt(0):
+            tag = new PAS64(tagsBuffer.subarray(offset))
+            break
+          case PATagType.PA_TAG_U64.toString().charCodeAt(0):
+            tag = new PAU64(tagsBuffer.subarray(offset))
+            break
+          case PATagType.PA_TAG_TIMEVAL.toString().charCodeAt(0):
+            tag = new PATimeval(tagsBuffer.subarray(offset))
+            break
           default:
             throw new Error(`Tag type: ${tagType} not supported. Please report issue.`)
         }
@@ -230,6 +243,22 @@ export default class PAPacket {
     this.tags.push(new PAU32(value))
   }
 
+  putU64 (value: bigint): void {
+    this.tags.push(new PAU64(value))
+  }
+
+  putS64 (value: bigint): void {
+    this.tags.push(new PAS64(value))
+  }
+
+  putUsec (value: bigint): void {
+    this.tags.push(new PAUsec(value))
+  }
+
+  putTimeval (value: Timeval): void {
+    this.tags.push(new PATimeval(value))
+  }
+
   putBoolean (value: boolean): void {
     this.tags.push(new PABoolean(value))
   }
@@ -242,18 +271,39 @@ export default class PAPacket {
     this.tags.push(new PAString(value))
   }
 
-  putProp (value: [string, string]): void {
+  // putString writes empty strings as null strings, some commands tell both apart
+  putEmptyString (): void {
+    this.tags.push(new PAString(Buffer.from([PATagType.PA_TAG_STRING.toString().charCodeAt(0), 0x00])))
+  }
+
+  putProp (value: [string, PropValue]): void {
     this.tags.push(new PAProp(value))
   }
 
-  putPropList (value: Array<[string, string]>): void {
-    this.tags.push(new PAPropList(value))
+  putPropList (value: PropListInit): void {
+    this.tags.push(new PAPropList(value instanceof PropList ? value.toArray() : value))
   }
 
   putChannelVolume (value: ChannelVolume): void {
     this.tags.push(new PAChannelVolume(value))
   }
 
+  putSampleSpec (value: SampleSpec): void {
+    this.tags.push(new PASampleSpec(value))
+  }
+
+  putChannelMap (value: ChannelMap): void {
+    this.tags.push(new PAChannelMap(value))
+  }
+
+  // Format lists are a u8 count followed by the format info tags
+  putFormats (value: Format[]): void {
+    this.tags.push(new PAU8(value.length))
+    for (const format of value) {
+      this.tags.push(new PAFormat(format))
+    }
+  }
+
   getTagsIterable (): Iterator<PATag<any>> {
     return createIterator(this.tags.map(t => t.value))
   }
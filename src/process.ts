@@ -0,0 +1,104 @@
+// Client properties describing the running process, sent to the server when connecting
+// Mirrors what libpulse fills in, see pa_init_proplist in
+// https://github.com/pulseaudio/pulseaudio/blob/v15.0/src/pulsecore/core-util.c
+
+import { ClientProperties } from './types/pulseaudio'
+
+type RequireFn = (id: string) => unknown
+declare const require: RequireFn | undefined
+
+interface GLibModule {
+  get_user_name: () => string
+  get_host_name: () => string
+  get_prgname: () => string | null
+  get_language_names: () => string[]
+}
+
+interface GioModule {
+  Credentials: new () => { get_unix_pid: () => number }
+}
+
+interface ImportsModule {
+  gi?: {
+    GLib?: GLibModule
+    Gio?: GioModule
+  }
+}
+
+declare const imports: ImportsModule | undefined
+
+type NodeOsModule = typeof import('os')
+
+function getNodeOs (): NodeOsModule | null {
+  if (typeof require !== 'function') {
+    return null
+  }
+
+  try {
+    const osModule = require('os') as NodeOsModule | undefined
+    return osModule !== undefined && typeof osModule.hostname === 'function' ? osModule : null
+  } catch (_error) {
+    return null
+  }
+}
+
+function getNodeUser (os: NodeOsModule): string | undefined {
+  try {
+    return os.userInfo().username
+  } catch (_error) {
+    // No passwd entry for the current uid, e.g. in some containers
+    return process.env.USER
+  }
+}
+
+// Resolved like setlocale(LC_MESSAGES, NULL): the first of LC_ALL, LC_MESSAGES and LANG that is set and not empty
+function getNodeLanguage (): string {
+  const locales: Array<string | undefined> = [process.env.LC_ALL, process.env.LC_MESSAGES, process.env.LANG]
+  return locales.find(locale => locale !== undefined && locale !== '') ?? 'C'
+}
+
+function getNodeProcessProperties (): ClientProperties {
+  const os = getNodeOs()
+  return {
+    'application.process.id': String(process.pid),
+    'application.process.binary': process.execPath.split('/').pop(),
+    'application.process.user': os !== null ? getNodeUser(os) : process.env.USER,
+    'application.process.host': os?.hostname(),
+    'application.language': getNodeLanguage()
+  }
+}
+
+function getGjsProcessProperties (): ClientProperties {
+  const GLib = imports?.gi?.GLib
+  if (GLib === undefined) {
+    return {}
+  }
+
+  const Gio = imports?.gi?.Gio
+  let processId: string | undefined
+  try {
+    processId = Gio !== undefined ? String(new Gio.Credentials().get_unix_pid()) : undefined
+  } catch (_error) {
+    // Credentials are not supported on every platform
+    processId = undefined
+  }
+
+  return {
+    'application.process.id': processId,
+    'application.process.binary': GLib.get_prgname() ?? undefined,
+    'application.process.user': GLib.get_user_name(),
+    'application.process.host': GLib.get_host_name(),
+    'application.language': GLib.get_language_names()[0]
+  }
+}
+
+/**
+ * Gets the properties describing the current process: its ID, binary, user, host and language.
+ * Properties that can't be determined in the current environment are left undefined.
+ */
+export function getProcessProperties (): ClientProperties {
+  if (typeof process !== 'undefined' && typeof process.pid === 'number') {
+    return getNodeProcessProperties()
+  }
+  return getGjsProcessProperties()
+}
@@ -0,0 +1,200 @@
+// PulseAudio property list definitions
+// See https://github.com/pulseaudio/pulseaudio/blob/v15.0/src/pulse/proplist.h
+
+import { Buffer } from 'buffer'
+
+import { PropListEntries, PropValue } from './types/pulseaudio'
+
+/**
+ * How properties sent to the server are combined with the ones already set.
+ * - `SET`: Replaces the whole property list with the new properties.
+ * - `MERGE`: Adds the new properties, keeping the value of keys that are already set.
+ * - `REPLACE`: Adds the new properties, overwriting the value of keys that are already set.
+ */
+export enum PAUpdateMode {
+  SET = 0,
+  MERGE = 1,
+  REPLACE = 2
+}
+
+/**
+ * Well-known property keys, see the `PA_PROP_*` constants in proplist.h.
+ * `NODE_*` keys are only set by PipeWire.
+ */
+export enum PAPropKey {
+  MEDIA_NAME = 'media.name',
+  MEDIA_TITLE = 'media.title',
+  MEDIA_ARTIST = 'media.artist',
+  MEDIA_ROLE = 'media.role',
+  MEDIA_ICON_NAME = 'media.icon_name',
+  EVENT_ID = 'event.id',
+  FILTER_WANT = 'filter.want',
+  APPLICATION_NAME = 'application.name',
+  APPLICATION_ID = 'application.id',
+  APPLICATION_VERSION = 'application.version',
+  APPLICATION_ICON_NAME = 'application.icon_name',
+  APPLICATION_LANGUAGE = 'application.language',
+  APPLICATION_PROCESS_ID = 'application.process.id',
+  APPLICATION_PROCESS_BINARY = 'application.process.binary',
+  APPLICATION_PROCESS_USER = 'application.process.user',
+  APPLICATION_PROCESS_HOST = 'application.process.host',
+  DEVICE_STRING = 'device.string',
+  DEVICE_API = 'device.api',
+  DEVICE_DESCRIPTION = 'device.description',
+  DEVICE_BUS_PATH = 'device.bus_path',
+  DEVICE_SERIAL = 'device.serial',
+  DEVICE_VENDOR_NAME = 'device.vendor.name',
+  DEVICE_PRODUCT_NAME = 'device.product.name',
+  DEVICE_CLASS = 'device.class',
+  DEVICE_FORM_FACTOR = 'device.form_factor',
+  DEVICE_BUS = 'device.bus',
+  DEVICE_ICON_NAME = 'device.icon_name',
+  DEVICE_PROFILE_NAME = 'device.profile.name',
+  NODE_NAME = 'node.name',
+  NODE_DESCRIPTION = 'node.description',
+  NODE_DONT_MOVE = 'node.dont-move'
+}
+
+export type MediaRole = 'video' | 'music' | 'game' | 'event' | 'phone' | 'animation' | 'production' | 'a11y' | 'test'
+export type DeviceClass = 'sound' | 'modem' | 'monitor' | 'filter' | 'abstract'
+export type DeviceFormFactor = 'internal' | 'speaker' | 'handset' | 'tv' | 'webcam' | 'microphone' | 'headset' | 'headphone' | 'hands-free' | 'car' | 'hifi' | 'computer' | 'portable'
+export type DeviceBus = 'isa' | 'pci' | 'usb' | 'firewire' | 'bluetooth'
+
+/**
+ * Anything accepted where properties are sent to the server.
+ */
+export type PropListInit = PropList | PropListEntries
+
+/**
+ * Property list of a client, stream, device, module or sample, with accessors for the well-known keys.
+ *
+ * Most values are UTF-8 strings, binary ones such as `application.icon` are kept as a `Buffer`.
+ * Info objects returned by the client hold the properties as `[key, value]` pairs, wrap them to read them by key.
+ *
+ * @example
+ * ```ts
+ * const sink = await client.getSink('alsa_output.dac.stereo-fallback')
+ * const properties = new PropList(sink.properties)
+ * if (properties.deviceFormFactor === 'headphone') {
+ *   await client.setSinkVolume(sink.index, 40, PAVolumeUnit.PERCENT)
+ * }
+ * ```
+ */
+export class PropList implements Iterable<[string, PropValue]> {
+  private readonly properties: Map<string, PropValue> = new Map()
+
+  /**
+  * @param init `[key, value]` pairs, or an object whose undefined values are left out.
+  */
+  constructor (init: Iterable<[string, PropValue]> | Record<string, PropValue | undefined> = []) {
+    const entries: Iterable<[string, PropValue | undefined]> = Symbol.iterator in init
+      ? init
+      : Object.entries(init)
+    for (const [key, value] of entries) {
+      if (value !== undefined) {
+        this.properties.set(key, value)
+      }
+    }
+  }
+
+  get size (): number {
+    return this.properties.size
+  }
+
+  has (key: PAPropKey | string): boolean {
+    return this.properties.has(key)
+  }
+
+  /**
+  * Gets a property as a string, `undefined` if it isn't set or holds binary data. Mirrors `pa_proplist_gets`.
+  */
+  get (key: PAPropKey | string): string | undefined {
+    const value: PropValue | undefined = this.properties.get(key)
+    return typeof value === 'string' ? value : undefined
+  }
+
+  /**
+  * Gets the raw bytes of a property, string values are UTF-8 encoded without their NUL terminator.
+  */
+  getBinary (key: PAPropKey | string): Buffer | undefined {
+    const value: PropValue | undefined = this.properties.get(key)
+    return typeof value === 'string' ? Buffer.from(value, 'utf8') : value
+  }
+
+  set (key: PAPropKey | string, value: PropValue): this {
+    this.properties.set(key, value)
+    return this
+  }
+
+  delete (key: PAPropKey | string): boolean {
+    return this.properties.delete(key)
+  }
+
+  keys (): IterableIterator<string> {
+    return this.properties.keys()
+  }
+
+  [Symbol.iterator] (): IterableIterator<[string, PropValue]> {
+    return this.properties.entries()
+  }
+
+  /**
+  * Converts the property list to `[key, value]` pairs, the format it is sent to the server in.
+  */
+  toArray (): PropListEntries {
+    return Array.from(this.properties.entries())
+  }
+
+  get mediaName (): string | undefined {
+    return this.get(PAPropKey.MEDIA_NAME)
+  }
+
+  get mediaRole (): MediaRole | undefined {
+    return this.get(PAPropKey.MEDIA_ROLE) as MediaRole | undefined
+  }
+
+  get applicationName (): string | undefined {
+    return this.get(PAPropKey.APPLICATION_NAME)
+  }
+
+  get applicationId (): string | undefined {
+    return this.get(PAPropKey.APPLICATION_ID)
+  }
+
+  get applicationIconName (): string | undefined {
+    return this.get(PAPropKey.APPLICATION_ICON_NAME)
+  }
+
+  get processId (): number | undefined {
+    const processId: string | undefined = this.get(PAPropKey.APPLICATION_PROCESS_ID)
+    return processId === undefined ? undefined : parseInt(processId, 10)
+  }
+
+  get processBinary (): string | undefined {
+    return this.get(PAPropKey.APPLICATION_PROCESS_BINARY)
+  }
+
+  get deviceDescription (): string | undefined {
+    return this.get(PAPropKey.DEVICE_DESCRIPTION)
+  }
+
+  get deviceClass (): DeviceClass | undefined {
+    return this.get(PAPropKey.DEVICE_CLASS) as DeviceClass | undefined
+  }
+
+  get deviceFormFactor (): DeviceFormFactor | undefined {
+    return this.get(PAPropKey.DEVICE_FORM_FACTOR) as DeviceFormFactor | undefined
+  }
+
+  get deviceBus (): DeviceBus | undefined {
+    return this.get(PAPropKey.DEVICE_BUS) as DeviceBus | undefined
+  }
+
+  get deviceIconName (): string | undefined {
+    return this.get(PAPropKey.DEVICE_ICON_NAME)
+  }
+
+  get nodeName (): string | undefined {
+    return this.get(PAPropKey.NODE_NAME)
+  }
+}
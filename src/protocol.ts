@@ -4,3 +4,4 @@ export const PA_PROTOCOL_MINIMUM_VERSION = 33 // PulseAudio v13.0.0
 export const PA_PROTOCOL_VERSION = 35 // PulseAudio v15.0.0
 export const PA_MAX_REQUEST_ID = 0xFFFFFFFF
 export const PA_NO_VALUE = 0xFFFFFFFF
+export const PA_VOLUME_NORM = 0x10000
@@ -0,0 +1,115 @@
+// PulseAudio sample format and sample spec helpers
+// See https://github.com/pulseaudio/pulseaudio/blob/v15.0/src/pulse/sample.h
+// and https://github.com/pulseaudio/pulseaudio/blob/v15.0/src/pulse/sample.c
+
+import { SampleSpec } from './types/pulseaudio'
+
+/**
+ * Sample formats, see `SampleSpec.format`.
+ * The 24 bit `S24_32` formats are stored in the least significant bits of 32 bit samples.
+ */
+export enum PASampleFormat {
+  U8 = 0,
+  ALAW = 1,
+  ULAW = 2,
+  S16LE = 3,
+  S16BE = 4,
+  FLOAT32LE = 5,
+  FLOAT32BE = 6,
+  S32LE = 7,
+  S32BE = 8,
+  S24LE = 9,
+  S24BE = 10,
+  S24_32LE = 11,
+  S24_32BE = 12
+}
+
+// Largest number of channels and sample rate the server accepts, see PA_CHANNELS_MAX and PA_RATE_MAX
+export const PA_CHANNELS_MAX = 32
+export const PA_RATE_MAX = 48000 * 8
+
+// Name and bytes per sample of each sample format, names are the ones pactl prints
+const SAMPLE_FORMATS: Record<PASampleFormat, [string, number]> = {
+  [PASampleFormat.U8]: ['u8', 1],
+  [PASampleFormat.ALAW]: ['aLaw', 1],
+  [PASampleFormat.ULAW]: ['uLaw', 1],
+  [PASampleFormat.S16LE]: ['s16le', 2],
+  [PASampleFormat.S16BE]: ['s16be', 2],
+  [PASampleFormat.FLOAT32LE]: ['float32le', 4],
+  [PASampleFormat.FLOAT32BE]: ['float32be', 4],
+  [PASampleFormat.S32LE]: ['s32le', 4],
+  [PASampleFormat.S32BE]: ['s32be', 4],
+  [PASampleFormat.S24LE]: ['s24le', 3],
+  [PASampleFormat.S24BE]: ['s24be', 3],
+  [PASampleFormat.S24_32LE]: ['s24-32le', 4],
+  [PASampleFormat.S24_32BE]: ['s24-32be', 4]
+}
+
+const getSampleFormat = (format: PASampleFormat): [string, number] => {
+  const sampleFormat: [string, number] | undefined = SAMPLE_FORMATS[format]
+  if (sampleFormat === undefined) {
+    throw new Error(`Unknown sample format ${format}.`)
+  }
+  return sampleFormat
+}
+
+/**
+ * Gets the name of a sample format, e.g. `s16le`. Mirrors `pa_sample_format_to_string`.
+ */
+export const sampleFormatToString = (format: PASampleFormat): string => getSampleFormat(format)[0]
+
+/**
+ * Parses the name of a sample format, case insensitive. Mirrors `pa_parse_sample_format` without the native endian aliases.
+ */
+export const parseSampleFormat = (name: string): PASampleFormat => {
+  for (const [format, [formatName]] of Object.entries(SAMPLE_FORMATS)) {
+    if (formatName.toLowerCase() === name.toLowerCase()) {
+      return Number(format)
+    }
+  }
+  throw new Error(`Unknown sample format "${name}".`)
+}
+
+/**
+ * Gets the size of a single sample in bytes. Mirrors `pa_sample_size_of_format`.
+ */
+export const getSampleSize = (format: PASampleFormat): number => getSampleFormat(format)[1]
+
+/**
+ * Gets the size of a frame (one sample for every channel) in bytes. Mirrors `pa_frame_size`.
+ */
+export const getFrameSize = (sampleSpec: SampleSpec): number => getSampleSize(sampleSpec.format) * sampleSpec.channels
+
+/**
+ * Gets the number of bytes played (or recorded) per second. Mirrors `pa_bytes_per_second`.
+ */
+export const getBytesPerSecond = (sampleSpec: SampleSpec): number => getFrameSize(sampleSpec) * sampleSpec.rate
+
+/**
+ * Formats a sample spec the way pactl prints it, e.g. `s16le 2ch 44100Hz`. Mirrors `pa_sample_spec_snprint`.
+ */
+export const sampleSpecToString = (sampleSpec: SampleSpec): string => {
+  return `${sampleFormatToString(sampleSpec.format)} ${sampleSpec.channels}ch ${sampleSpec.rate}Hz`
+}
+
+/**
+ * Parses a sample spec printed by pactl, e.g. `s16le 2ch 44100Hz`.
+ *
+ * @example
+ * ```ts
+ * const sampleSpec = parseSampleSpec('s16le 2ch 44100Hz') // { format: PASampleFormat.S16LE, channels: 2, rate: 44100 }
+ * ```
+ */
+export const parseSampleSpec = (value: string): SampleSpec => {
+  const match: RegExpMatchArray | null = value.trim().match(/^(\S+)\s+(\d+)ch\s+(\d+)Hz$/)
+  if (match === null) {
+    throw new Error(`Invalid sample spec "${value}".`)
+  }
+
+  const channels: number = parseInt(match[2], 10)
+  const rate: number = parseInt(match[3], 10)
+  if (channels < 1 || channels > PA_CHANNELS_MAX || rate < 1 || rate > PA_RATE_MAX) {
+    throw new Error(`Invalid sample spec "${value}".`)
+  }
+  return { format: parseSampleFormat(match[1]), channels, rate }
+}
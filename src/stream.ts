@@ -0,0 +1,11 @@
+import { PAStreamFlags } from './streams/common'
+import PAPlaybackStream from './streams/playback'
+import PARecordStream from './streams/record'
+
+export { PAStreamFlags }
+
+// Stream implementations
+export {
+  PAPlaybackStream,
+  PARecordStream
+}
@@ -0,0 +1,38 @@
+import { PAChannelMapDef, initChannelMap } from '../channelmap'
+import { ChannelMap, SampleSpec } from '../types/pulseaudio'
+
+// PulseAudio stream flags
+// See https://github.com/pulseaudio/pulseaudio/blob/v15.0/src/pulse/def.h
+export enum PAStreamFlags {
+  NOFLAGS = 0x0000,
+  START_CORKED = 0x0001,
+  INTERPOLATE_TIMING = 0x0002,
+  NOT_MONOTONIC = 0x0004,
+  AUTO_TIMING_UPDATE = 0x0008,
+  NO_REMAP_CHANNELS = 0x0010,
+  NO_REMIX_CHANNELS = 0x0020,
+  FIX_FORMAT = 0x0040,
+  FIX_RATE = 0x0080,
+  FIX_CHANNELS = 0x0100,
+  DONT_MOVE = 0x0200,
+  VARIABLE_RATE = 0x0400,
+  PEAK_DETECT = 0x0800,
+  START_MUTED = 0x1000,
+  ADJUST_LATENCY = 0x2000,
+  EARLY_REQUESTS = 0x4000,
+  DONT_INHIBIT_AUTO_SUSPEND = 0x8000,
+  START_UNMUTED = 0x10000,
+  FAIL_ON_SUSPEND = 0x20000,
+  RELATIVE_VOLUME = 0x40000,
+  PASSTHROUGH = 0x80000
+}
+
+// Channel map used when a stream is created without one, the AIFF order like pa_stream_new
+// AIFF only defines channel maps for up to 6 channels, anything else must be explicit
+export const getDefaultChannelMap = (sampleSpec: SampleSpec): ChannelMap => {
+  try {
+    return initChannelMap(sampleSpec.channels, PAChannelMapDef.AIFF)
+  } catch (_error) {
+    throw new Error(`A channel map is required for streams with ${sampleSpec.channels} channels.`)
+  }
+}
@@ -0,0 +1,133 @@
+import { Writable } from 'readable-stream'
+import { Buffer } from 'buffer'
+
+import PAMemblock from '../memblock'
+import type PulseAudio from '../client'
+import { ChannelMap, PlaybackBufferAttr, PlaybackStreamInfo, SampleSpec } from '../types/pulseaudio'
+import { PAStreamFlags } from './common'
+
+type MemblockWriter = (memblock: PAMemblock) => void
+
+/**
+ * Playback stream created by {@link PulseAudio.createPlaybackStream}. Pipe raw PCM data matching the stream's sample spec into it.
+ *
+ * Data is only sent to the server once it requests it, so backpressure follows the server's buffer.
+ * Ending the stream drains it on the server before it is deleted.
+ *
+ * Emits `started`, `underflow`, `overflow`, `suspended` and `moved` for the matching server notifications.
+ *
+ * @example
+ * ```ts
+ * const stream = await client.createPlaybackStream({
+ *   sampleSpec: { format: PASampleFormat.S16LE, channels: 2, rate: 44100 }
+ * })
+ * fs.createReadStream('audio.raw').pipe(stream)
+ * ```
+ * @noInheritDoc
+ */
+export default class PAPlaybackStream extends Writable {
+  /**
+  * Channel used to exchange data and commands for this stream on the connection.
+  */
+  public channel: number
+  /**
+  * Index of the sink input created on the server for this stream.
+  */
+  public index: number
+  public sinkIndex: number
+  public sinkName: string
+  public sampleSpec: SampleSpec
+  public channelMap: ChannelMap
+  public bufferAttr: PlaybackBufferAttr
+  /**
+  * Flags the stream was created with, see {@link PAStreamFlags}.
+  */
+  public flags: number = PAStreamFlags.NOFLAGS
+  public isSuspended: boolean
+  public isCorked: boolean = false
+  public deleted: boolean = false
+  private requestedBytes: number
+  private pending: Buffer | null = null
+  private pendingCallback: ((error?: Error | null) => void) | null = null
+  private readonly client: PulseAudio
+  private readonly writeMemblock: MemblockWriter
+
+  constructor (client: PulseAudio, info: PlaybackStreamInfo, writeMemblock: MemblockWriter) {
+    super()
+    this.client = client
+    this.writeMemblock = writeMemblock
+    this.channel = info.channel
+    this.index = info.index
+    this.requestedBytes = info.requestedBytes
+    this.bufferAttr = info.bufferAttr
+    this.sampleSpec = info.sampleSpec
+    this.channelMap = info.channelMap
+    this.sinkIndex = info.sinkIndex
+    this.sinkName = info.sinkName
+    this.isSuspended = info.isSuspended
+  }
+
+  // Server notifications, routed here by the client
+  onRequest (bytes: number): void {
+    this.requestedBytes += bytes
+    this.flushPending()
+  }
+
+  onSuspended (suspended: boolean): void {
+    this.isSuspended = suspended
+    this.emit('suspended', suspended)
+  }
+
+  onMoved (sinkIndex: number, sinkName: string, suspended: boolean): void {
+    this.sinkIndex = sinkIndex
+    this.sinkName = sinkName
+    this.isSuspended = suspended
+    this.emit('moved', sinkIndex, sinkName)
+  }
+
+  onKilled (): void {
+    this.deleted = true
+    this.destroy(new Error('Playback stream was killed by the server.'))
+  }
+
+  _write (chunk: Buffer, _encoding: string, callback: (error?: Error | null) => void): void {
+    this.pending = chunk
+    this.pendingCallback = callback
+    this.flushPending()
+  }
+
+  _final (callback: (error?: Error | null) => void): void {
+    this.client.drainPlaybackStream(this).then(() => callback(), callback)
+  }
+
+  _destroy (error: Error | null, callback: (error: Error | null) => void): void {
+    this.pending = null
+    this.pendingCallback = null
+    if (this.deleted || !this.client.connected) {
+      callback(error)
+      return
+    }
+    this.client.deletePlaybackStream(this).then(() => callback(error), (deleteError) => callback(error ?? deleteError))
+  }
+
+  // Send as much pending data as the server has asked for
+  private flushPending (): void {
+    if (this.pending === null || this.requestedBytes === 0) {
+      return
+    }
+
+    const length: number = Math.min(this.pending.length, this.requestedBytes)
+    for (const memblock of PAMemblock.fromData(this.channel, this.pending.subarray(0, length))) {
+      this.writeMemblock(memblock)
+    }
+    this.requestedBytes -= length
+    this.pending = this.pending.subarray(length)
+
+    if (this.pending.length === 0) {
+      const callback = this.pendingCallback
+      this.pending = null
+      this.pendingCallback = null
+      callback?.()
+    }
+  }
+}
@@ -0,0 +1,99 @@
+import { Readable } from 'readable-stream'
+import { Buffer } from 'buffer'
+
+import type PulseAudio from '../client'
+import { ChannelMap, RecordBufferAttr, RecordStreamInfo, SampleSpec } from '../types/pulseaudio'
+import { PAStreamFlags } from './common'
+
+/**
+ * Record stream created by {@link PulseAudio.createRecordStream}. Yields raw PCM data matching the stream's sample spec.
+ *
+ * Besides the usual `data` events and piping, the stream can be consumed with `for await`, which also works under GJS.
+ * The server keeps sending data while the stream is not corked, pausing the stream only buffers it locally.
+ *
+ * Emits `suspended` and `moved` for the matching server notifications.
+ *
+ * @example
+ * ```ts
+ * const sink = await client.getSink('alsa_output.dac.stereo-fallback')
+ * const stream = await client.createRecordStream({
+ *   sampleSpec: { format: PASampleFormat.S16LE, channels: 2, rate: 44100 },
+ *   source: sink.monitorSourceName
+ * })
+ * for await (const chunk of stream) {
+ *   console.log(`Got ${chunk.length} bytes`)
+ * }
+ * ```
+ * @noInheritDoc
+ */
+export default class PARecordStream extends Readable {
+  /**
+  * Channel used to exchange data and commands for this stream on the connection.
+  */
+  public channel: number
+  /**
+  * Index of the source output created on the server for this stream.
+  */
+  public index: number
+  public sourceIndex: number
+  public sourceName: string
+  public sampleSpec: SampleSpec
+  public channelMap: ChannelMap
+  public bufferAttr: RecordBufferAttr
+  /**
+  * Flags the stream was created with, see {@link PAStreamFlags}.
+  */
+  public flags: number = PAStreamFlags.NOFLAGS
+  public isSuspended: boolean
+  public isCorked: boolean = false
+  public deleted: boolean = false
+  private readonly client: PulseAudio
+
+  constructor (client: PulseAudio, info: RecordStreamInfo) {
+    super()
+    this.client = client
+    this.channel = info.channel
+    this.index = info.index
+    this.bufferAttr = info.bufferAttr
+    this.sampleSpec = info.sampleSpec
+    this.channelMap = info.channelMap
+    this.sourceIndex = info.sourceIndex
+    this.sourceName = info.sourceName
+    this.isSuspended = info.isSuspended
+  }
+
+  // Server notifications, routed here by the client
+  onData (data: Buffer): void {
+    if (!this.destroyed) {
+      this.push(data)
+    }
+  }
+
+  onSuspended (suspended: boolean): void {
+    this.isSuspended = suspended
+    this.emit('suspended', suspended)
+  }
+
+  onMoved (sourceIndex: number, sourceName: string, suspended: boolean): void {
+    this.sourceIndex = sourceIndex
+    this.sourceName = sourceName
+    this.isSuspended = suspended
+    this.emit('moved', sourceIndex, sourceName)
+  }
+
+  onKilled (): void {
+    this.deleted = true
+    this.destroy(new Error('Record stream was killed by the server.'))
+  }
+
+  // Data is pushed as it arrives from the server
+  _read (_size: number): void {}
+
+  _destroy (error: Error | null, callback: (error: Error | null) => void): void {
+    if (this.deleted || !this.client.connected) {
+      callback(error)
+      return
+    }
+    this.client.deleteRecordStream(this).then(() => callback(error), (deleteError) => callback(error ?? deleteError))
+  }
+}
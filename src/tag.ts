@@ -12,6 +12,9 @@ import PAUsec from './tags/usec'
 import PAVolume from './tags/volume'
 import PAFormat from './tags/format'
 import PAU8 from './tags/u8'
+import PAS64 from './tags/s64'
+import PAU64 from './tags/u64'
+import PATimeval from './tags/timeval'
 
 export { PATag, PATagType }
 
@@ -29,5 +32,8 @@ export {
   PAUsec,
   PAVolume,
   PAFormat,
-  PAU8
+  PAU8,
+  PAS64,
+  PAU64,
+  PATimeval
 }
@@ -3,20 +3,24 @@ import { PATag, PATagType } from './common'
 import PAArbitrary from './arbitrary'
 import PAU32 from './u32'
 import PAString from './string'
+import { PropValue } from '../types/pulseaudio'
 
 const PA_PROP_BASE_SIZE = 5
 
+const utf8Decoder: TextDecoder = new TextDecoder('utf-8', { fatal: true })
+
 // PulseAudio property tag structure by section
 // + X byte: String tag with property name
 // + 5 byte: U32 tag with property value length (+1)
-// + X byte: Arbitrary tag with null terminated property value (+1)
-export default class PAProp extends PATag<[string, string]> {
+// + X byte: Arbitrary tag with property value, null terminated (+1) for strings
+export default class PAProp extends PATag<[string, PropValue]> {
   type: PATagType = PATagType.PA_TAG_PROP
 
-  toTagBuffer (value: [string, string]): Buffer {
-    const valueBuffer: Buffer = Buffer.allocUnsafe(value[1].length + 1)
-    valueBuffer.write(value[1])
-    valueBuffer.writeUInt8(0, valueBuffer.length - 1) // Null terminated
+  toTagBuffer (value: [string, PropValue]): Buffer {
+    // Binary values are sent as is, strings are null terminated
+    const valueBuffer: Buffer = typeof value[1] === 'string'
+      ? Buffer.concat([Buffer.from(value[1], 'utf8'), Buffer.from([0])])
+      : value[1]
 
     const propName: PAString = new PAString(value[0])
     const propValueLength: PAU32 = new PAU32(valueBuffer.length)
@@ -30,9 +34,22 @@ export default class PAProp extends PATag<[string, string]> {
     return buffer
   }
 
-  fromTagBuffer (buffer: Buffer): [string, string] {
+  fromTagBuffer (buffer: Buffer): [string, PropValue] {
     const [propName, propValue] = this.parseTag(buffer)
-    return [propName.value, propValue.value.subarray(0, propValue.value.length - 1).toString('utf8')]
+    return [propName.value, this.parseValue(propValue.value)]
+  }
+
+  // Same check as pa_proplist_gets: a string value is valid UTF-8 with a single null terminator
+  parseValue (value: Buffer): PropValue {
+    const nulIndex: number = value.indexOf(0)
+    if (nulIndex === value.length - 1) {
+      try {
+        return utf8Decoder.decode(value.subarray(0, nulIndex))
+      } catch (_error) {
+        // Not valid UTF-8, keep it as binary
+      }
+    }
+    return Buffer.from(value)
   }
 
   sanitizeBuffer (buffer: Buffer): Buffer {
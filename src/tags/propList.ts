@@ -1,16 +1,17 @@
 import { Buffer } from 'buffer'
 import { PATag, PATagType } from './common'
 import PAProp from './prop'
+import { PropListEntries } from '../types/pulseaudio'
 
 const PA_PROP_LIST_BASE_SIZE = 2
 // PulseAudio proplist tag structure by section
 // - 1 byte: tag type
 // - X bytes: [props]
 // - 1 byte: list terminator
-export default class PAPropList extends PATag<Array<[string, string]>> {
+export default class PAPropList extends PATag<PropListEntries> {
   type: PATagType = PATagType.PA_TAG_PROPLIST
 
-  toTagBuffer (value: Array<[string, string]>): Buffer {
+  toTagBuffer (value: PropListEntries): Buffer {
     const props: PAProp[] = []
     value.map(val => props.push(new PAProp(val)))
 
@@ -18,7 +19,7 @@ export default class PAPropList extends PATag<Array<[string, string]>> {
     return Buffer.concat(parts)
   }
 
-  fromTagBuffer (buffer: Buffer): Array<[string, string]> {
+  fromTagBuffer (buffer: Buffer): PropListEntries {
     // TODO: Validate buffer
     const values: PAProp[] = this.parseTag(buffer)
     return values.map(v => v.value)
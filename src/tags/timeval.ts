@@ -0,0 +1,43 @@
+import { Buffer } from 'buffer'
+import { PATag, PATagType } from './common'
+import { Timeval } from '../types/pulseaudio'
+
+const PA_TIMEVAL_SIZE = 9
+
+// PulseAudio timeval tag structure by section
+// - 1 byte: tag type
+// - 4 bytes: seconds
+// - 4 bytes: microseconds
+export default class PATimeval extends PATag<Timeval> {
+  type: PATagType = PATagType.PA_TAG_TIMEVAL
+
+  toTagBuffer (value: Timeval): Buffer {
+    const buffer: Buffer = Buffer.allocUnsafe(PA_TIMEVAL_SIZE)
+    let offset: number = 0
+    offset = buffer.writeUInt8(PATagType.PA_TAG_TIMEVAL.toString().charCodeAt(0), offset)
+    offset = buffer.writeUInt32BE(value.seconds, offset)
+    buffer.writeUInt32BE(value.microseconds, offset)
+    return buffer
+  }
+
+  fromTagBuffer (buffer: Buffer): Timeval {
+    return {
+      seconds: buffer.readUInt32BE(1),
+      microseconds: buffer.readUInt32BE(5)
+    }
+  }
+
+  sanitizeBuffer (buffer: Buffer): Buffer {
+    return buffer.subarray(0, PA_TIMEVAL_SIZE)
+  }
+
+  isValidBuffer (buffer: Buffer): boolean {
+    const tagType: PATagType = buffer.readUInt8(0)
+    return tagType === PATagType.PA_TAG_TIMEVAL.toString().charCodeAt(0)
+  }
+
+  /* @ts-expect-error */
+  isTagBuffer (buffer: Buffer): boolean {
+    return true
+  }
+}
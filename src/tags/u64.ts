@@ -0,0 +1,37 @@
+import { Buffer } from 'buffer'
+import { PATag, PATagType } from './common'
+
+const PA_U64_SIZE = 9
+
+// PulseAudio u64 tag structure by section
+// - 1 byte: tag type
+// - 8 bytes: value
+export default class PAU64 extends PATag<bigint> {
+  type: PATagType = PATagType.PA_TAG_U64
+
+  toTagBuffer (value: bigint): Buffer {
+    const buffer: Buffer = Buffer.allocUnsafe(PA_U64_SIZE)
+    let offset: number = 0
+    offset = buffer.writeUInt8(PATagType.PA_TAG_U64.toString().charCodeAt(0), offset)
+    buffer.writeBigUInt64BE(value, offset)
+    return buffer
+  }
+
+  fromTagBuffer (buffer: Buffer): bigint {
+    return buffer.readBigUInt64BE(1)
+  }
+
+  sanitizeBuffer (buffer: Buffer): Buffer {
+    return buffer.subarray(0, PA_U64_SIZE)
+  }
+
+  isValidBuffer (buffer: Buffer): boolean {
+    const tagType: PATagType = buffer.readUInt8(0)
+    return tagType === PATagType.PA_TAG_U64.toString().charCodeAt(0)
+  }
+
+  /* @ts-expect-error */
+  isTagBuffer (buffer: Buffer): boolean {
+    return true
+  }
+}
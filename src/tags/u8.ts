@@ -1,74 +1,30 @@
 import { Buffer } from 'buffer'
 import { PATag, PATagType } from './common'
-import { PAPropList } from '../tag'
-import { Format } from '../types/pulseaudio'
 
-// Not clear the differences with PAFormat tag
+const PA_U8_SIZE = 2
+
 // PulseAudio u8 tag structure by section
 // - 1 byte: u8 tag type
-// - 1 byte: format count
-// -------------------------
-// - 1 byte: format info tag type
-// - 1 byte: u8 tag type
-// - 1 byte: format encoding
-// - x bytes: [props]
-export default class PAU8 extends PATag<Format[]> {
+// - 1 byte: value
+// Format lists are a u8 count followed by that many format info tags,
+// they are read by the command parsers that expect them, see readFormats
+export default class PAU8 extends PATag<number> {
   type: PATagType = PATagType.PA_TAG_U8
 
-  toTagBuffer (values: Format[]): Buffer {
-    const parts: Buffer[] = []
-
-    // u8 tag
-    parts.push(Buffer.from(PATagType.PA_TAG_U8))
-
-    // format count
-    const formatCount: Buffer = Buffer.allocUnsafe(1)
-    formatCount.writeUInt8(values.length)
-    parts.push(formatCount)
-
-    // formats...
-    for (const value of values) {
-      // tags and encoding
-      const buffer: Buffer = Buffer.allocUnsafe(3)
-      let offset: number = 0
-      offset = buffer.writeUInt8(PATagType.PA_TAG_FORMAT_INFO.toString().charCodeAt(0), offset)
-      offset = buffer.writeUInt8(PATagType.PA_TAG_U8.toString().charCodeAt(0), offset)
-      offset = buffer.writeUInt8(value.encoding, offset)
-      parts.push(buffer)
-
-      // Properties
-      const props: PAPropList = new PAPropList(value.properties)
-      parts.push(props.tag)
-    }
-
-    return Buffer.concat(parts)
+  toTagBuffer (value: number): Buffer {
+    const buffer: Buffer = Buffer.allocUnsafe(PA_U8_SIZE)
+    let offset: number = 0
+    offset = buffer.writeUInt8(PATagType.PA_TAG_U8.toString().charCodeAt(0), offset)
+    buffer.writeUInt8(value, offset)
+    return buffer
   }
 
-  fromTagBuffer (buffer: Buffer): Format[] {
-    return this.parseTag(buffer)
+  fromTagBuffer (buffer: Buffer): number {
+    return buffer.readUInt8(1)
   }
 
   sanitizeBuffer (buffer: Buffer): Buffer {
-    const formats: Format[] = this.parseTag(buffer)
-    const formatSize: number = formats.reduce((sum, format) => {
-      const props: PAPropList = new PAPropList(format.properties)
-      sum = sum + 3 + props.size
-      return sum
-    }, 2)
-    return buffer.subarray(0, formatSize)
-  }
-
-  parseTag (buffer: Buffer): Format[] {
-    const formats: Format[] = []
-    const count: number = buffer.readUInt8(1)
-    let offset: number = 2
-    for (let index = 0; index < count; index++) {
-      const encoding: number = buffer.readUInt8(offset + 2)
-      const props: PAPropList = new PAPropList(buffer.subarray(offset + 3))
-      formats.push({ encoding, properties: props.value })
-      offset = offset + 3 + props.size
-    }
-    return formats
+    return buffer.subarray(0, PA_U8_SIZE)
   }
 
   isValidBuffer (buffer: Buffer): boolean {
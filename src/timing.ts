@@ -0,0 +1,84 @@
+// PulseAudio stream timing helpers
+// https://github.com/pulseaudio/pulseaudio/blob/v15.0/src/pulse/stream.c
+
+import PAPlaybackStream from './streams/playback'
+import PARecordStream from './streams/record'
+import { getBytesPerSecond } from './sample'
+import { LatencyInfo, SampleSpec, Timeval, TimingInfo } from './types/pulseaudio'
+
+const USEC_PER_SEC = BigInt(1_000_000)
+
+// Current wall clock time, the server compares it with its own clock to tell if both are synchronized
+export const getTimeval = (): Timeval => {
+  const now: number = Date.now()
+  return { seconds: Math.floor(now / 1000), microseconds: (now % 1000) * 1000 }
+}
+
+export const timevalToUsec = (timeval: Timeval): bigint => {
+  return BigInt(timeval.seconds) * USEC_PER_SEC + BigInt(timeval.microseconds)
+}
+
+export const usecToTimeval = (usec: bigint): Timeval => {
+  return { seconds: Number(usec / USEC_PER_SEC), microseconds: Number(usec % USEC_PER_SEC) }
+}
+
+/**
+ * Converts a length in bytes to its duration in microseconds for the given sample spec, rounding down. Mirrors `pa_bytes_to_usec`.
+ */
+export const bytesToUsec = (bytes: bigint, sampleSpec: SampleSpec): bigint => {
+  return bytes * USEC_PER_SEC / BigInt(getBytesPerSecond(sampleSpec))
+}
+
+const max = (a: bigint, b: bigint): bigint => a > b ? a : b
+
+/**
+ * Completes a latency reply with the transport delay and the stream's latency, like `pa_stream_get_timing_info` and `pa_stream_get_latency`.
+ *
+ * If the request was sent, handled and answered in order according to both clocks, they are considered synchronized
+ * and the transport delay is measured directly. Otherwise it is estimated as half of the round trip.
+ *
+ * The latency is how long it takes for data written to a playback stream now to be heard, or how long ago the data read from a record stream was captured.
+ * It is negative when the server has played back more than was written (playback streams only).
+ *
+ * @param latency The latency reply, with the local time it was requested at.
+ * @param now The local time the reply was received at.
+ */
+export const getTimingInfo = (latency: LatencyInfo, now: Timeval, stream: PAPlaybackStream | PARecordStream): TimingInfo => {
+  const local: bigint = timevalToUsec(latency.localTimeval)
+  const remote: bigint = timevalToUsec(latency.remoteTimeval)
+  const received: bigint = timevalToUsec(now)
+  const isPlayback: boolean = stream instanceof PAPlaybackStream
+
+  let transportUsec: bigint
+  let timestamp: Timeval
+  const synchronizedClocks: boolean = local <= remote && remote <= received
+  if (synchronizedClocks) {
+    transportUsec = isPlayback ? remote - local : received - remote
+    timestamp = latency.remoteTimeval
+  } else {
+    transportUsec = (received - local) / BigInt(2)
+    timestamp = usecToTimeval(local + transportUsec)
+  }
+
+  // Without timing data the device isn't consuming the buffer, only the indexes count
+  const running: boolean = !stream.isCorked && !stream.isSuspended
+  const readUsec: bigint = bytesToUsec(max(latency.readIndex, BigInt(0)), stream.sampleSpec)
+  const writeUsec: bigint = bytesToUsec(max(latency.writeIndex, BigInt(0)), stream.sampleSpec)
+
+  let streamTime: bigint
+  if (isPlayback) {
+    // Position in the stream of the sample being played right now
+    streamTime = running ? max(readUsec + transportUsec - latency.sinkUsec, BigInt(0)) : readUsec
+  } else {
+    // Position in the stream of the sample being captured right now
+    streamTime = running ? max(writeUsec + transportUsec + latency.sourceUsec - latency.sinkUsec, BigInt(0)) : writeUsec
+  }
+
+  return {
+    ...latency,
+    transportUsec,
+    synchronizedClocks,
+    timestamp,
+    latency: isPlayback ? writeUsec - streamTime : streamTime - readUsec
+  }
+}
@@ -1,9 +1,20 @@
+import { Buffer } from 'buffer'
+
+import { PAChannelPosition } from '../channelmap'
+import { PADeviceState, PAPortAvailable } from '../device'
+import { PAEncoding } from '../format'
+import { PropListInit } from '../proplist'
+import { PASampleFormat } from '../sample'
+
+export type PropValue = string | Buffer
+export type PropListEntries = Array<[string, PropValue]>
+
 export interface Module {
   index: number
   name: string
   argument: string
   usageCounter: number
-  properties: []
+  properties: PropListEntries
 }
 
 export interface Index {
@@ -24,10 +35,10 @@ export interface Sink {
   latency: BigInt
   driverName: string
   flagsRaw: number
-  properties: []
+  properties: PropListEntries
   configLatency: BigInt
   baseVolume: number
-  state: number
+  state: PADeviceState
   volumeSteps: number
   cardIndex: number
   numberPorts: number
@@ -40,11 +51,38 @@ export interface Port {
   name: string
   description: string
   priority: number
-  available?: boolean
+  available: PAPortAvailable
   availabilityGroup?: string
   type?: number
 }
 
+export interface Card {
+  index: number
+  name: string
+  moduleIndex: number
+  driverName: string
+  profiles: CardProfile[]
+  activeProfileName: string
+  properties: PropListEntries
+  ports: CardPort[]
+}
+
+export interface CardProfile {
+  name: string
+  description: string
+  sinks: number
+  sources: number
+  priority: number
+  available: boolean
+}
+
+export interface CardPort extends Port {
+  direction: number
+  properties: PropListEntries
+  profiles: string[]
+  latencyOffset: BigInt
+}
+
 export interface SinkInput {
   index: number
   name: string
@@ -59,7 +97,7 @@ export interface SinkInput {
   resampleMethod: string
   driverName: string
   isMuted?: boolean
-  properties?: []
+  properties?: PropListEntries
   isCorked?: boolean
   hasVolume?: boolean
   isVolumeWritable?: boolean
@@ -80,10 +118,10 @@ export interface Source {
   latency: BigInt
   driverName: string
   flagsRaw: number
-  properties: []
+  properties: PropListEntries
   configLatency: BigInt
   baseVolume: number
-  state: number
+  state: PADeviceState
   volumeSteps: number
   cardIndex: number
   numberPorts: number
@@ -104,7 +142,7 @@ export interface SourceOutput {
   sourceLatency: BigInt
   resampleMethod: string
   driverName: string
-  properties?: []
+  properties?: PropListEntries
   isCorked?: boolean
   channelVolume: ChannelVolume
   isMuted?: boolean
@@ -113,6 +151,19 @@ export interface SourceOutput {
   format?: Format
 }
 
+export interface Sample {
+  index: number
+  name: string
+  channelVolume: ChannelVolume
+  duration: BigInt
+  sampleSpec: SampleSpec
+  channelMap: ChannelMap
+  bytes: number
+  isLazy: boolean
+  filename: string
+  properties: PropListEntries
+}
+
 export interface ChannelVolume {
   channels: number
   volumes: number[]
@@ -120,28 +171,54 @@ export interface ChannelVolume {
 
 export interface ChannelMap {
   channels: number
-  types: number[]
+  types: PAChannelPosition[]
+}
+
+export interface Timeval {
+  seconds: number
+  microseconds: number
 }
 
 export interface SampleSpec {
-  format: number
+  format: PASampleFormat
   channels: number
   rate: number
 }
 
 export interface Format {
-  encoding: number
-  properties: Array<[string, string]>
+  encoding: PAEncoding
+  properties: PropListEntries
 }
 
 export interface AuthInfo {
   protocol: number
 }
 
+export interface ClientProperties {
+  'application.name'?: string
+  'application.id'?: string
+  'application.version'?: string
+  'application.icon_name'?: string
+  'application.language'?: string
+  'application.process.id'?: string
+  'application.process.binary'?: string
+  'application.process.user'?: string
+  'application.process.host'?: string
+  [key: string]: string | undefined
+}
+
 export interface ClientInfo {
   index: number
 }
 
+export interface Client {
+  index: number
+  name: string
+  moduleIndex: number
+  driverName: string
+  properties: PropListEntries
+}
+
 export interface ServerInfo {
   name: string
   version: string
@@ -154,8 +231,17 @@ export interface ServerInfo {
   channelMap: ChannelMap
 }
 
+export interface StatInfo {
+  memblockTotal: number
+  memblockTotalSize: number
+  memblockAllocated: number
+  memblockAllocatedSize: number
+  sampleCacheSize: number
+}
+
 export interface Status {
   success: boolean
+  error?: string
 }
 
 export interface SubscribeInfo extends Status {
@@ -163,3 +249,93 @@ export interface SubscribeInfo extends Status {
 
 export interface VolumeInfo extends Status {
 }
+
+export interface StreamMoveResult {
+  index: number
+  moved: boolean
+  error?: string
+}
+
+export interface PlaybackBufferAttr {
+  maxLength: number
+  targetLength: number
+  prebuffer: number
+  minimumRequest: number
+}
+
+export interface PlaybackStreamOptions {
+  sampleSpec: SampleSpec
+  channelMap?: ChannelMap
+  sink?: number | string
+  bufferAttr?: Partial<PlaybackBufferAttr>
+  volume?: ChannelVolume
+  flags?: number
+  properties?: PropListInit
+}
+
+export interface PlaybackStreamInfo {
+  channel: number
+  index: number
+  requestedBytes: number
+  bufferAttr: PlaybackBufferAttr
+  sampleSpec: SampleSpec
+  channelMap: ChannelMap
+  sinkIndex: number
+  sinkName: string
+  isSuspended: boolean
+  sinkLatency: BigInt
+  format?: Format
+}
+
+export interface UploadStreamInfo {
+  channel: number
+  requestedBytes: number
+}
+
+export interface RecordBufferAttr {
+  maxLength: number
+  fragmentSize: number
+}
+
+export interface RecordStreamOptions {
+  sampleSpec: SampleSpec
+  channelMap?: ChannelMap
+  source?: number | string
+  bufferAttr?: Partial<RecordBufferAttr>
+  volume?: ChannelVolume
+  flags?: number
+  properties?: PropListInit
+  directOnInput?: number
+}
+
+export interface RecordStreamInfo {
+  channel: number
+  index: number
+  bufferAttr: RecordBufferAttr
+  sampleSpec: SampleSpec
+  channelMap: ChannelMap
+  sourceIndex: number
+  sourceName: string
+  isSuspended: boolean
+  sourceLatency: BigInt
+  format?: Format
+}
+
+export interface LatencyInfo {
+  sinkUsec: bigint
+  sourceUsec: bigint
+  playing: boolean
+  localTimeval: Timeval
+  remoteTimeval: Timeval
+  writeIndex: bigint
+  readIndex: bigint
+  sinceUnderrun?: bigint
+  playingFor?: bigint
+}
+
+export interface TimingInfo extends LatencyInfo {
+  transportUsec: bigint
+  synchronizedClocks: boolean
+  timestamp: Timeval
+  latency: bigint
+}
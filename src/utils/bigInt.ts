@@ -12,5 +12,5 @@ export function JSONParse (json: any): any {
 }
 
 export function isBigInt (value: any): boolean {
-  return typeof value === 'string' && /^\d+n$/.test(value)
+  return typeof value === 'string' && /^-?\d+n$/.test(value)
 }
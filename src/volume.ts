@@ -0,0 +1,348 @@
+// PulseAudio channel volume helpers
+// https://github.com/pulseaudio/pulseaudio/blob/v15.0/src/pulse/volume.c
+
+import { PAChannelPosition } from './channelmap'
+import { ChannelMap, ChannelVolume, Sink } from './types/pulseaudio'
+import { PA_VOLUME_NORM } from './protocol'
+
+export const PA_VOLUME_MUTED = 0
+// Largest valid volume, see PA_VOLUME_MAX
+export const PA_VOLUME_MAX = 0x7FFFFFFF
+// Decibel values at or below this are treated as silence, see PA_DECIBEL_MININFTY
+export const PA_DECIBEL_MININFTY = -200
+
+/**
+ * Units a volume can be expressed in.
+ * - `RAW`: PulseAudio's `pa_volume_t`, `PA_VOLUME_NORM` (0x10000) is 100%.
+ * - `PERCENT`: Percentage of `PA_VOLUME_NORM`, as shown by pactl and most mixers. Values above 100 amplify.
+ * - `LINEAR`: Linear amplitude factor, using PulseAudio's cubic volume mapping.
+ * - `DECIBEL`: Attenuation (or amplification) in dB, 0 dB being `PA_VOLUME_NORM`.
+ */
+export enum PAVolumeUnit {
+  RAW = 'raw',
+  PERCENT = 'percent',
+  LINEAR = 'linear',
+  DECIBEL = 'decibel'
+}
+
+/**
+ * Volume scale of a sink or source, used to convert volumes for that device.
+ */
+export type VolumeScale = Pick<Sink, 'baseVolume' | 'volumeSteps'>
+
+type ChannelSide = (position: PAChannelPosition) => boolean
+
+// Channel positions grouped by side, see on_left, on_right, on_front and on_rear in volume.c
+const LEFT_POSITIONS: PAChannelPosition[] = [
+  PAChannelPosition.FRONT_LEFT,
+  PAChannelPosition.REAR_LEFT,
+  PAChannelPosition.FRONT_LEFT_OF_CENTER,
+  PAChannelPosition.SIDE_LEFT,
+  PAChannelPosition.TOP_FRONT_LEFT,
+  PAChannelPosition.TOP_REAR_LEFT
+]
+const RIGHT_POSITIONS: PAChannelPosition[] = [
+  PAChannelPosition.FRONT_RIGHT,
+  PAChannelPosition.REAR_RIGHT,
+  PAChannelPosition.FRONT_RIGHT_OF_CENTER,
+  PAChannelPosition.SIDE_RIGHT,
+  PAChannelPosition.TOP_FRONT_RIGHT,
+  PAChannelPosition.TOP_REAR_RIGHT
+]
+const FRONT_POSITIONS: PAChannelPosition[] = [
+  PAChannelPosition.FRONT_LEFT,
+  PAChannelPosition.FRONT_RIGHT,
+  PAChannelPosition.FRONT_CENTER,
+  PAChannelPosition.FRONT_LEFT_OF_CENTER,
+  PAChannelPosition.FRONT_RIGHT_OF_CENTER,
+  PAChannelPosition.TOP_FRONT_LEFT,
+  PAChannelPosition.TOP_FRONT_RIGHT,
+  PAChannelPosition.TOP_FRONT_CENTER
+]
+const REAR_POSITIONS: PAChannelPosition[] = [
+  PAChannelPosition.REAR_CENTER,
+  PAChannelPosition.REAR_LEFT,
+  PAChannelPosition.REAR_RIGHT,
+  PAChannelPosition.TOP_REAR_LEFT,
+  PAChannelPosition.TOP_REAR_RIGHT,
+  PAChannelPosition.TOP_REAR_CENTER
+]
+const CENTER_POSITIONS: PAChannelPosition[] = [
+  PAChannelPosition.FRONT_CENTER,
+  PAChannelPosition.REAR_CENTER,
+  PAChannelPosition.TOP_CENTER,
+  PAChannelPosition.TOP_FRONT_CENTER,
+  PAChannelPosition.TOP_REAR_CENTER
+]
+
+const onLeft: ChannelSide = position => LEFT_POSITIONS.includes(position)
+const onRight: ChannelSide = position => RIGHT_POSITIONS.includes(position)
+const onFront: ChannelSide = position => FRONT_POSITIONS.includes(position)
+const onRear: ChannelSide = position => REAR_POSITIONS.includes(position)
+const onCenter: ChannelSide = position => CENTER_POSITIONS.includes(position)
+const onLfe: ChannelSide = position => position === PAChannelPosition.LFE
+
+// Truncates like the (pa_volume_t) casts in volume.c, callers round first where libpulse does
+const clampVolume = (volume: number): number => Math.max(Math.min(Math.floor(volume), PA_VOLUME_MAX), PA_VOLUME_MUTED)
+
+// Average volume of the channels on each side, PA_VOLUME_NORM if a side has no channels
+const getAverages = (volume: ChannelVolume, channelMap: ChannelMap, onA: ChannelSide, onB: ChannelSide): [number, number] => {
+  let a: number = 0
+  let b: number = 0
+  let countA: number = 0
+  let countB: number = 0
+
+  for (let channel = 0; channel < channelMap.channels; channel++) {
+    if (onA(channelMap.types[channel])) {
+      a += volume.volumes[channel]
+      countA++
+    } else if (onB(channelMap.types[channel])) {
+      b += volume.volumes[channel]
+      countB++
+    }
+  }
+
+  return [
+    countA === 0 ? PA_VOLUME_NORM : Math.floor(a / countA),
+    countB === 0 ? PA_VOLUME_NORM : Math.floor(b / countB)
+  ]
+}
+
+const hasSides = (channelMap: ChannelMap, onA: ChannelSide, onB: ChannelSide): boolean => {
+  return channelMap.types.some(onA) && channelMap.types.some(onB)
+}
+
+const getRatio = (volume: ChannelVolume, channelMap: ChannelMap, onA: ChannelSide, onB: ChannelSide): number => {
+  if (!hasSides(channelMap, onA, onB)) {
+    return 0
+  }
+
+  const [a, b] = getAverages(volume, channelMap, onA, onB)
+  if (a === b) {
+    return 0
+  }
+  return a > b ? -1 + b / a : 1 - a / b
+}
+
+const setRatio = (volume: ChannelVolume, channelMap: ChannelMap, ratio: number, onA: ChannelSide, onB: ChannelSide): ChannelVolume => {
+  if (ratio < -1 || ratio > 1) {
+    throw new Error(`Expected a value between -1 and 1, got ${ratio}.`)
+  }
+  if (volume.channels !== channelMap.channels) {
+    throw new Error(`Channel volume has ${volume.channels} channels but the channel map has ${channelMap.channels}.`)
+  }
+
+  const volumes: number[] = [...volume.volumes]
+  if (!hasSides(channelMap, onA, onB)) {
+    return { channels: volume.channels, volumes }
+  }
+
+  const [a, b] = getAverages(volume, channelMap, onA, onB)
+  const max: number = Math.max(a, b)
+  const newA: number = ratio <= 0 ? max : (1 - ratio) * max
+  const newB: number = ratio <= 0 ? (ratio + 1) * max : max
+
+  for (let channel = 0; channel < channelMap.channels; channel++) {
+    if (onA(channelMap.types[channel])) {
+      volumes[channel] = a === 0 ? clampVolume(newA) : clampVolume(volumes[channel] * newA / a)
+    } else if (onB(channelMap.types[channel])) {
+      volumes[channel] = b === 0 ? clampVolume(newB) : clampVolume(volumes[channel] * newB / b)
+    }
+  }
+
+  return { channels: volume.channels, volumes }
+}
+
+/**
+ * Gets the left/right balance of a channel volume, from -1 (left only) to 1 (right only). Mirrors `pa_cvolume_get_balance`.
+ * Returns 0 if the channel map has no left or no right channels.
+ */
+export const getBalance = (volume: ChannelVolume, channelMap: ChannelMap): number => {
+  return getRatio(volume, channelMap, onLeft, onRight)
+}
+
+/**
+ * Returns a copy of the channel volume with its left/right balance adjusted, keeping the loudest side's volume. Mirrors `pa_cvolume_set_balance`.
+ * Channels that are neither left nor right (center, LFE, ...) are left untouched.
+ *
+ * @example
+ * ```ts
+ * const sink = await client.getSink('alsa_output.dac.stereo-fallback')
+ * await client.setSinkVolume(sink.index, setBalance(sink.channelVolume, sink.channelMap, -0.5))
+ * ```
+ * @param balance The new balance, from -1 (left only) to 1 (right only).
+ */
+export const setBalance = (volume: ChannelVolume, channelMap: ChannelMap, balance: number): ChannelVolume => {
+  return setRatio(volume, channelMap, balance, onLeft, onRight)
+}
+
+/**
+ * Gets the rear/front fade of a channel volume, from -1 (rear only) to 1 (front only). Mirrors `pa_cvolume_get_fade`.
+ * Returns 0 if the channel map has no front or no rear channels.
+ */
+export const getFade = (volume: ChannelVolume, channelMap: ChannelMap): number => {
+  return getRatio(volume, channelMap, onRear, onFront)
+}
+
+/**
+ * Returns a copy of the channel volume with its rear/front fade adjusted, keeping the loudest side's volume. Mirrors `pa_cvolume_set_fade`.
+ * @param fade The new fade, from -1 (rear only) to 1 (front only).
+ */
+export const setFade = (volume: ChannelVolume, channelMap: ChannelMap, fade: number): ChannelVolume => {
+  return setRatio(volume, channelMap, fade, onRear, onFront)
+}
+
+// Average of all channels, rounded down like pa_cvolume_avg
+const getAverage = (volume: ChannelVolume): number => {
+  return Math.floor(volume.volumes.reduce((sum, v) => sum + v, 0) / volume.channels)
+}
+
+const onSameSide = (a: PAChannelPosition, b: PAChannelPosition): boolean => {
+  return [onLeft, onRight, onCenter, onLfe].some(on => on(a) && on(b))
+}
+
+/**
+ * Converts a channel volume from one channel map to another. Mirrors `pa_cvolume_remap`.
+ *
+ * Each channel of the new map gets the average volume of the channels with the same position in the old map,
+ * or else of the channels on the same side (left, right, center or LFE), or else of all channels.
+ *
+ * @example
+ * ```ts
+ * // Show a slider per speaker of a 5.1 sink, then apply a stereo volume to it
+ * const sink = await client.getSink('alsa_output.hdmi-surround51')
+ * const stereo = channelMapFromPreset('stereo')
+ * const volume = remapVolume(sink.channelVolume, sink.channelMap, stereo)
+ * await client.setSinkVolume(sink.index, remapVolume(setBalance(volume, stereo, 0.5), stereo, sink.channelMap))
+ * ```
+ */
+export const remapVolume = (volume: ChannelVolume, from: ChannelMap, to: ChannelMap): ChannelVolume => {
+  if (volume.channels !== from.channels) {
+    throw new Error(`Channel volume has ${volume.channels} channels but the channel map has ${from.channels}.`)
+  }
+  if (from.channels === to.channels && from.types.every((position, channel) => position === to.types[channel])) {
+    return { channels: volume.channels, volumes: [...volume.volumes] }
+  }
+
+  const volumes: number[] = to.types.map(position => {
+    let sameChannels: number[] = volume.volumes.filter((_, channel) => from.types[channel] === position)
+    if (sameChannels.length === 0) {
+      sameChannels = volume.volumes.filter((_, channel) => onSameSide(from.types[channel], position))
+    }
+    if (sameChannels.length === 0) {
+      return getAverage(volume)
+    }
+    return Math.floor(sameChannels.reduce((sum, v) => sum + v, 0) / sameChannels.length)
+  })
+
+  return { channels: to.channels, volumes }
+}
+
+/**
+ * Converts a raw volume to a linear amplitude factor. Mirrors `pa_sw_volume_to_linear`.
+ */
+export const volumeToLinear = (volume: number): number => {
+  if (volume <= PA_VOLUME_MUTED) {
+    return 0
+  }
+  const factor: number = volume / PA_VOLUME_NORM
+  return factor * factor * factor
+}
+
+/**
+ * Converts a linear amplitude factor to a raw volume. Mirrors `pa_sw_volume_from_linear`.
+ */
+export const volumeFromLinear = (linear: number): number => {
+  if (linear <= 0) {
+    return PA_VOLUME_MUTED
+  }
+  return clampVolume(Math.round(Math.cbrt(linear) * PA_VOLUME_NORM))
+}
+
+/**
+ * Converts a raw volume to decibels, `-Infinity` for a muted volume. Mirrors `pa_sw_volume_to_dB`.
+ */
+export const volumeToDecibels = (volume: number): number => {
+  if (volume <= PA_VOLUME_MUTED) {
+    return -Infinity
+  }
+  return 20 * Math.log10(volumeToLinear(volume))
+}
+
+/**
+ * Converts decibels to a raw volume. Mirrors `pa_sw_volume_from_dB`.
+ */
+export const volumeFromDecibels = (decibels: number): number => {
+  if (decibels <= PA_DECIBEL_MININFTY) {
+    return PA_VOLUME_MUTED
+  }
+  return volumeFromLinear(Math.pow(10, decibels / 20))
+}
+
+/**
+ * Converts a raw volume to a percentage of `PA_VOLUME_NORM`.
+ */
+export const volumeToPercent = (volume: number): number => {
+  return volume / PA_VOLUME_NORM * 100
+}
+
+/**
+ * Converts a percentage of `PA_VOLUME_NORM` to a raw volume.
+ */
+export const volumeFromPercent = (percent: number): number => {
+  return clampVolume(Math.round(percent / 100 * PA_VOLUME_NORM))
+}
+
+/**
+ * Converts a volume in the given unit to a raw volume.
+ *
+ * When the device's volume scale is given, decibels are relative to its base volume (0 dB being the unamplified hardware level)
+ * and the result is rounded to the nearest of its volume steps, so devices without fine grained volume get a value they support.
+ * Raw volumes are passed through as is.
+ *
+ * @example
+ * ```ts
+ * const sink = await client.getSink('alsa_output.dac.stereo-fallback')
+ * toRawVolume(-6, PAVolumeUnit.DECIBEL, sink)
+ * ```
+ */
+export const toRawVolume = (value: number, unit: PAVolumeUnit, scale?: VolumeScale): number => {
+  let volume: number
+  switch (unit) {
+    case PAVolumeUnit.RAW:
+      return clampVolume(Math.round(value))
+    case PAVolumeUnit.PERCENT:
+      volume = volumeFromPercent(value)
+      break
+    case PAVolumeUnit.LINEAR:
+      volume = volumeFromLinear(value)
+      break
+    case PAVolumeUnit.DECIBEL:
+      volume = volumeFromDecibels(scale === undefined ? value : value + volumeToDecibels(scale.baseVolume))
+      break
+  }
+
+  // Devices report how many volume levels they have up to PA_VOLUME_NORM, every raw value when volume is fine grained
+  if (scale !== undefined && scale.volumeSteps > 1) {
+    const step: number = PA_VOLUME_NORM / (scale.volumeSteps - 1)
+    volume = clampVolume(Math.round(volume / step) * step)
+  }
+  return volume
+}
+
+/**
+ * Converts a raw volume to the given unit.
+ * When the device's volume scale is given, decibels are relative to its base volume, see {@link toRawVolume}.
+ */
+export const fromRawVolume = (volume: number, unit: PAVolumeUnit, scale?: VolumeScale): number => {
+  switch (unit) {
+    case PAVolumeUnit.RAW:
+      return volume
+    case PAVolumeUnit.PERCENT:
+      return volumeToPercent(volume)
+    case PAVolumeUnit.LINEAR:
+      return volumeToLinear(volume)
+    case PAVolumeUnit.DECIBEL:
+      return scale === undefined ? volumeToDecibels(volume) : volumeToDecibels(volume) - volumeToDecibels(scale.baseVolume)
+  }
+}
@@ -1,5 +1,18 @@
 import test from 'ava'
+import { Buffer } from 'buffer'
+import { PassThrough } from 'stream'
+
 import PulseAudio from '../../src/client'
+import PAPacket from '../../src/packet'
+import PARequest from '../../src/request'
+import { CreateUploadStream } from '../../src/commands/sample'
+import { PA_NATIVE_COMMAND_NAMES } from '../../src/commands'
+import { channelMapFromPreset } from '../../src/channelmap'
+import { PASampleFormat } from '../../src/sample'
+import { PAStreamFlags } from '../../src/streams/common'
+import PAPlaybackStream from '../../src/streams/playback'
+import PARecordStream from '../../src/streams/record'
+import { ChannelMap, PlaybackStreamInfo, RecordStreamInfo, SampleSpec } from '../../src/types/pulseaudio'
 
 test('PAClient.parseAdress: "tcp:host:port" address parsed correctly', t => {
   const client: PulseAudio = new PulseAudio('tcp:localhost:1234')
@@ -42,3 +55,159 @@ test('PAClient.parseAdress: "bad-address" address throws error', t => {
     console.log(client)
   })
 })
+
+test('PAClient emits an error and disconnects on an oversized frame', async t => {
+  const client: PulseAudio = new PulseAudio('tcp:localhost:1234')
+  const socket: PassThrough = new PassThrough()
+  const request: PARequest = new PARequest(1, new PAPacket())
+  const internals = client as unknown as { socket: PassThrough, requests: PARequest[], connected: boolean, onReadable: () => void }
+  internals.socket = socket
+  internals.requests.push(request)
+  internals.connected = true
+  socket.on('readable', internals.onReadable.bind(client))
+
+  const error = new Promise<Error>(resolve => client.once('error', resolve))
+  socket.write(Buffer.from('01000001ffffffff0000000000000000000000000000', 'hex'))
+
+  t.regex((await error).message, /exceeds the maximum/)
+  await t.throwsAsync(request.promise, { message: /exceeds the maximum/ })
+  t.false(client.connected)
+})
+
+test('PAClient ignores unknown commands without disconnecting', async t => {
+  const client: PulseAudio = new PulseAudio('tcp:localhost:1234')
+  const socket: PassThrough = new PassThrough()
+  const request: PARequest = new PARequest(1, new PAPacket())
+  const internals = client as unknown as { socket: PassThrough, requests: PARequest[], connected: boolean, onReadable: () => void }
+  internals.socket = socket
+  internals.requests.push(request)
+  internals.connected = true
+  socket.on('readable', internals.onReadable.bind(client))
+
+  const unknown: PAPacket = new PAPacket()
+  unknown.setCommand(9999)
+  unknown.setRequestId(1)
+  const read = new Promise(resolve => socket.once('readable', resolve))
+  socket.write(unknown.write())
+  await read
+
+  t.true(client.connected)
+  t.is(internals.requests.length, 1)
+  request.resolve({ success: true })
+  t.deepEqual(await request.promise, { success: true })
+})
+
+test('PAClient.uploadSample sends the given channel map', async t => {
+  const client: PulseAudio = new PulseAudio('tcp:localhost:1234')
+  const socket: PassThrough = new PassThrough()
+  const internals = client as unknown as { socket: PassThrough, requests: PARequest[], connected: boolean }
+  internals.socket = socket
+  internals.connected = true
+
+  const sampleSpec: SampleSpec = { format: PASampleFormat.S16LE, channels: 8, rate: 48000 }
+  const channelMap: ChannelMap = channelMapFromPreset('surround-71')
+  const upload = client.uploadSample('chime', sampleSpec, Buffer.alloc(16), [], channelMap)
+
+  t.is(socket.read().toString('hex'), CreateUploadStream.query(1, 'chime', sampleSpec, channelMap, 16).write().toString('hex'))
+  internals.requests[0].reject(new Error('No reply in this test.'))
+  await t.throwsAsync(upload, { message: 'No reply in this test.' })
+})
+
+test('PAClient.createPlaybackStream starts the stream corked with START_CORKED', async t => {
+  const client: PulseAudio = new PulseAudio('tcp:localhost:1234')
+  const internals = client as unknown as { socket: PassThrough, requests: PARequest[], connected: boolean }
+  internals.socket = new PassThrough()
+  internals.connected = true
+
+  const sampleSpec: SampleSpec = { format: PASampleFormat.S16LE, channels: 2, rate: 44100 }
+  const channelMap: ChannelMap = channelMapFromPreset('stereo')
+  const info: PlaybackStreamInfo = {
+    channel: 0,
+    index: 12,
+    requestedBytes: 0,
+    bufferAttr: { maxLength: 4194304, targetLength: 352800, prebuffer: 349276, minimumRequest: 3528 },
+    sampleSpec,
+    channelMap,
+    sinkIndex: 0,
+    sinkName: 'alsa_output.dac.stereo-fallback',
+    isSuspended: false,
+    sinkLatency: BigInt(23219)
+  }
+
+  const corked = client.createPlaybackStream({ sampleSpec, channelMap, flags: PAStreamFlags.START_CORKED })
+  internals.requests[0].resolve(info)
+  const stream: PAPlaybackStream = await corked
+  t.true(stream.isCorked)
+  t.is(stream.flags, PAStreamFlags.START_CORKED)
+
+  const running = client.createPlaybackStream({ sampleSpec, channelMap })
+  internals.requests[1].resolve({ ...info, channel: 1 })
+  t.false((await running).isCorked)
+})
+
+test('PAClient.createRecordStream keeps the flags and starts the stream corked with START_CORKED', async t => {
+  const client: PulseAudio = new PulseAudio('tcp:localhost:1234')
+  const internals = client as unknown as { socket: PassThrough, requests: PARequest[], connected: boolean }
+  internals.socket = new PassThrough()
+  internals.connected = true
+
+  const sampleSpec: SampleSpec = { format: PASampleFormat.S16LE, channels: 2, rate: 44100 }
+  const channelMap: ChannelMap = channelMapFromPreset('stereo')
+  const info: RecordStreamInfo = {
+    channel: 0,
+    index: 4,
+    bufferAttr: { maxLength: 4194304, fragmentSize: 17640 },
+    sampleSpec,
+    channelMap,
+    sourceIndex: 1,
+    sourceName: 'alsa_input.dac.stereo-fallback',
+    isSuspended: false,
+    sourceLatency: BigInt(10000)
+  }
+
+  const flags: number = PAStreamFlags.START_CORKED | PAStreamFlags.PEAK_DETECT
+  const corked = client.createRecordStream({ sampleSpec, channelMap, flags })
+  internals.requests[0].resolve(info)
+  const stream: PARecordStream = await corked
+  t.true(stream.isCorked)
+  t.is(stream.flags, flags)
+
+  const running = client.createRecordStream({ sampleSpec, channelMap })
+  internals.requests[1].resolve({ ...info, channel: 1 })
+  t.false((await running).isCorked)
+})
+
+test('PAClient rejects kill and lookup commands on error replies and resolves other commands with the error', async t => {
+  const client: PulseAudio = new PulseAudio('tcp:localhost:1234')
+  const internals = client as unknown as { socket: PassThrough, connected: boolean, resolveRequest: (reply: PAPacket) => void }
+  internals.socket = new PassThrough()
+  internals.connected = true
+
+  const errorReply = (requestId: number): PAPacket => {
+    const packet: PAPacket = new PAPacket()
+    packet.setCommand(PA_NATIVE_COMMAND_NAMES.PA_COMMAND_ERROR)
+    packet.setRequestId(requestId)
+    packet.putU32(5) // PA_ERR_NOENTITY
+    return packet
+  }
+
+  const kill = client.killSinkInput(12)
+  internals.resolveRequest(errorReply(1))
+  await t.throwsAsync(kill, { message: 'No such entity' })
+
+  const killOutput = client.killSourceOutput(4)
+  internals.resolveRequest(errorReply(2))
+  await t.throwsAsync(killOutput, { message: 'No such entity' })
+
+  const lookup = client.lookupSink('missing_sink')
+  internals.resolveRequest(errorReply(3))
+  await t.throwsAsync(lookup, { message: 'No such entity' })
+
+  const lookupSource = client.lookupSource('missing_source')
+  internals.resolveRequest(errorReply(4))
+  await t.throwsAsync(lookupSource, { message: 'No such entity' })
+
+  const mute = client.setSinkInputMute(12, true)
+  internals.resolveRequest(errorReply(5))
+  t.deepEqual(await mute, { success: false, error: 'No such entity' })
+})
@@ -0,0 +1,77 @@
+import test from 'ava'
+import { Buffer } from 'buffer'
+import { loadFixture, Dictionary, Fixture } from '../fixtures'
+import { GetCard, GetCardList, SetCardProfile, SetPortLatencyOffset } from '../../../src/commands/card'
+import { PA_PROTOCOL_MINIMUM_VERSION, PA_PROTOCOL_VERSION } from '../../../src/protocol'
+import PAPacket from '../../../src/packet'
+import { JSONParse, JSONStringify } from '../../../src/utils/bigInt'
+
+const fixtures: Dictionary<Fixture> = {}
+const fxToLoad = [
+  'card'
+]
+
+test.before(async _t => {
+  for (const fx of fxToLoad) {
+    fixtures[fx] = await loadFixture(fx)
+  }
+})
+
+// GetCard
+test('GetCard query', t => {
+  const f = fixtures.card.getCard
+  const [requestId, card] = f.queryParameters
+  t.is(GetCard.query(requestId, card).write().toString('hex'), f.queryBuffer)
+})
+
+// Port availability groups and types are only sent from protocol v34
+test('GetCard reply', t => {
+  const f = fixtures.card.getCard
+  const packet = new PAPacket(Buffer.from(f.replyBuffer, 'hex'))
+  t.deepEqual(GetCard.reply(packet, PA_PROTOCOL_VERSION), JSONParse(JSONStringify(f.replyObject)))
+})
+
+// GetCardList
+test('GetCardList query', t => {
+  const f = fixtures.card.getCardList
+  const [requestId] = f.queryParameters
+  t.is(GetCardList.query(requestId).write().toString('hex'), f.queryBuffer)
+})
+
+test('GetCardList reply', t => {
+  const f = fixtures.card.getCardList
+  const packet = new PAPacket(Buffer.from(f.replyBuffer, 'hex'))
+  t.deepEqual(GetCardList.reply(packet, PA_PROTOCOL_MINIMUM_VERSION), JSONParse(JSONStringify(f.replyObject)))
+})
+
+// SetCardProfile
+test('SetCardProfile query', t => {
+  const f = fixtures.card.setCardProfile
+  const [requestId, card, profile] = f.queryParameters
+  t.is(SetCardProfile.query(requestId, card, profile).write().toString('hex'), f.queryBuffer)
+})
+
+test('SetCardProfile query by index', t => {
+  const f = fixtures.card.setCardProfileByIndex
+  const [requestId, card, profile] = f.queryParameters
+  t.is(SetCardProfile.query(requestId, card, profile).write().toString('hex'), f.queryBuffer)
+})
+
+test('SetCardProfile reply', t => {
+  const f = fixtures.card.setCardProfile
+  const packet = new PAPacket(Buffer.from(f.replyBuffer, 'hex'))
+  t.deepEqual(SetCardProfile.reply(packet, PA_PROTOCOL_MINIMUM_VERSION), JSONParse(JSONStringify(f.replyObject)))
+})
+
+// SetPortLatencyOffset
+test('SetPortLatencyOffset query', t => {
+  const f = fixtures.card.setPortLatencyOffset
+  const [requestId, card, port, offset] = JSONParse(JSONStringify(f.queryParameters))
+  t.is(SetPortLatencyOffset.query(requestId, card, port, offset).write().toString('hex'), f.queryBuffer)
+})
+
+test('SetPortLatencyOffset reply', t => {
+  const f = fixtures.card.setPortLatencyOffset
+  const packet = new PAPacket(Buffer.from(f.replyBuffer, 'hex'))
+  t.deepEqual(SetPortLatencyOffset.reply(packet, PA_PROTOCOL_MINIMUM_VERSION), JSONParse(JSONStringify(f.replyObject)))
+})
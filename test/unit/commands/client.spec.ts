@@ -4,7 +4,7 @@ import { loadFixture, Dictionary, Fixture } from '../fixtures'
 import { PA_PROTOCOL_MINIMUM_VERSION } from '../../../src/protocol'
 import PAPacket from '../../../src/packet'
 import { JSONParse, JSONStringify } from '../../../src/utils/bigInt'
-import { SetClientName } from '../../../src/commands/client'
+import { SetClientName, GetClient, GetClientList, KillClient, UpdateClientProperties, RemoveClientProperties } from '../../../src/commands/client'
 
 const fixtures: Dictionary<Fixture> = {}
 const fxToLoad = [
@@ -20,8 +20,8 @@ test.before(async _t => {
 // SetClientName
 test('SetClientName query', t => {
   const f = fixtures.client.setClientName
-  const [requestId, clientName] = f.queryParameters
-  t.is(SetClientName.query(requestId, clientName).write().toString('hex'), f.queryBuffer)
+  const [requestId, properties] = f.queryParameters
+  t.is(SetClientName.query(requestId, properties).write().toString('hex'), f.queryBuffer)
 })
 
 test('SetClientName reply', t => {
@@ -29,3 +29,68 @@ test('SetClientName reply', t => {
   const packet = new PAPacket(Buffer.from(f.replyBuffer, 'hex'))
   t.deepEqual(SetClientName.reply(packet, PA_PROTOCOL_MINIMUM_VERSION), JSONParse(JSONStringify(f.replyObject)))
 })
+
+// GetClient
+test('GetClient query', t => {
+  const f = fixtures.client.getClient
+  const [requestId, client] = f.queryParameters
+  t.is(GetClient.query(requestId, client).write().toString('hex'), f.queryBuffer)
+})
+
+test('GetClient reply', t => {
+  const f = fixtures.client.getClient
+  const packet = new PAPacket(Buffer.from(f.replyBuffer, 'hex'))
+  t.deepEqual(GetClient.reply(packet, PA_PROTOCOL_MINIMUM_VERSION), JSONParse(JSONStringify(f.replyObject)))
+})
+
+// GetClientList
+test('GetClientList query', t => {
+  const f = fixtures.client.getClientList
+  const [requestId] = f.queryParameters
+  t.is(GetClientList.query(requestId).write().toString('hex'), f.queryBuffer)
+})
+
+test('GetClientList reply', t => {
+  const f = fixtures.client.getClientList
+  const packet = new PAPacket(Buffer.from(f.replyBuffer, 'hex'))
+  t.deepEqual(GetClientList.reply(packet, PA_PROTOCOL_MINIMUM_VERSION), JSONParse(JSONStringify(f.replyObject)))
+})
+
+// KillClient
+test('KillClient query', t => {
+  const f = fixtures.client.killClient
+  const [requestId, client] = f.queryParameters
+  t.is(KillClient.query(requestId, client).write().toString('hex'), f.queryBuffer)
+})
+
+test('KillClient reply', t => {
+  const f = fixtures.client.killClient
+  const packet = new PAPacket(Buffer.from(f.replyBuffer, 'hex'))
+  t.deepEqual(KillClient.reply(packet, PA_PROTOCOL_MINIMUM_VERSION), JSONParse(JSONStringify(f.replyObject)))
+})
+
+// UpdateClientProperties
+test('UpdateClientProperties query', t => {
+  const f = fixtures.client.updateClientProperties
+  const [requestId, mode, properties] = f.queryParameters
+  t.is(UpdateClientProperties.query(requestId, mode, properties).write().toString('hex'), f.queryBuffer)
+})
+
+test('UpdateClientProperties reply', t => {
+  const f = fixtures.client.updateClientProperties
+  const packet = new PAPacket(Buffer.from(f.replyBuffer, 'hex'))
+  t.deepEqual(UpdateClientProperties.reply(packet, PA_PROTOCOL_MINIMUM_VERSION), JSONParse(JSONStringify(f.replyObject)))
+})
+
+// RemoveClientProperties
+test('RemoveClientProperties query', t => {
+  const f = fixtures.client.removeClientProperties
+  const [requestId, keys] = f.queryParameters
+  t.is(RemoveClientProperties.query(requestId, keys).write().toString('hex'), f.queryBuffer)
+})
+
+test('RemoveClientProperties reply', t => {
+  const f = fixtures.client.removeClientProperties
+  const packet = new PAPacket(Buffer.from(f.replyBuffer, 'hex'))
+  t.deepEqual(RemoveClientProperties.reply(packet, PA_PROTOCOL_MINIMUM_VERSION), JSONParse(JSONStringify(f.replyObject)))
+})
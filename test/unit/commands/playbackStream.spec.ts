@@ -0,0 +1,140 @@
+import test from 'ava'
+import { Buffer } from 'buffer'
+import { loadFixture, Dictionary, Fixture } from '../fixtures'
+import { CreatePlaybackStream, DeletePlaybackStream, CorkPlaybackStream, FlushPlaybackStream, DrainPlaybackStream, GetPlaybackLatency, UpdatePlaybackStreamProperties, RemovePlaybackStreamProperties } from '../../../src/commands/playbackStream'
+import { PA_PROTOCOL_MINIMUM_VERSION } from '../../../src/protocol'
+import PAPacket from '../../../src/packet'
+import { PAChannelMapDef, channelMapToString, initChannelMap } from '../../../src/channelmap'
+import { JSONParse, JSONStringify } from '../../../src/utils/bigInt'
+
+const fixtures: Dictionary<Fixture> = {}
+const fxToLoad = [
+  'playbackStream'
+]
+
+test.before(async _t => {
+  for (const fx of fxToLoad) {
+    fixtures[fx] = await loadFixture(fx)
+  }
+})
+
+// CreatePlaybackStream
+test('CreatePlaybackStream query', t => {
+  const f = fixtures.playbackStream.createPlaybackStream
+  const [requestId, options] = f.queryParameters
+  t.is(CreatePlaybackStream.query(requestId, options).write().toString('hex'), f.queryBuffer)
+})
+
+test('CreatePlaybackStream reply', t => {
+  const f = fixtures.playbackStream.createPlaybackStream
+  const packet = new PAPacket(Buffer.from(f.replyBuffer, 'hex'))
+  t.deepEqual(CreatePlaybackStream.reply(packet, PA_PROTOCOL_MINIMUM_VERSION), JSONParse(JSONStringify(f.replyObject)))
+})
+
+test('CreatePlaybackStream query defaults to the AIFF channel map', t => {
+  const f = fixtures.playbackStream.createPlaybackStream
+  const [requestId, options] = f.queryParameters
+  const sampleSpec = { ...options.sampleSpec, channels: 6 }
+  const defaultQuery: string = CreatePlaybackStream.query(requestId, { ...options, sampleSpec, channelMap: undefined }).write().toString('hex')
+  const explicitQuery: string = CreatePlaybackStream.query(requestId, { ...options, sampleSpec, channelMap: initChannelMap(6, PAChannelMapDef.AIFF) }).write().toString('hex')
+  t.is(defaultQuery, explicitQuery)
+  t.is(channelMapToString(initChannelMap(6, PAChannelMapDef.AIFF)), 'front-left,front-left-of-center,front-center,front-right,front-right-of-center,rear-center')
+})
+
+test('CreatePlaybackStream query requires a channel map for more than 6 channels', t => {
+  const f = fixtures.playbackStream.createPlaybackStream
+  const [requestId, options] = f.queryParameters
+  const sampleSpec = { ...options.sampleSpec, channels: 8 }
+  t.throws(() => CreatePlaybackStream.query(requestId, { ...options, sampleSpec, channelMap: undefined }), { message: 'A channel map is required for streams with 8 channels.' })
+})
+
+// DeletePlaybackStream
+test('DeletePlaybackStream query', t => {
+  const f = fixtures.playbackStream.deletePlaybackStream
+  const [requestId, channel] = f.queryParameters
+  t.is(DeletePlaybackStream.query(requestId, channel).write().toString('hex'), f.queryBuffer)
+})
+
+test('DeletePlaybackStream reply', t => {
+  const f = fixtures.playbackStream.deletePlaybackStream
+  const packet = new PAPacket(Buffer.from(f.replyBuffer, 'hex'))
+  t.deepEqual(DeletePlaybackStream.reply(packet, PA_PROTOCOL_MINIMUM_VERSION), JSONParse(JSONStringify(f.replyObject)))
+})
+
+// CorkPlaybackStream
+test('CorkPlaybackStream query', t => {
+  const f = fixtures.playbackStream.corkPlaybackStream
+  const [requestId, channel, cork] = f.queryParameters
+  t.is(CorkPlaybackStream.query(requestId, channel, cork).write().toString('hex'), f.queryBuffer)
+})
+
+test('CorkPlaybackStream reply', t => {
+  const f = fixtures.playbackStream.corkPlaybackStream
+  const packet = new PAPacket(Buffer.from(f.replyBuffer, 'hex'))
+  t.deepEqual(CorkPlaybackStream.reply(packet, PA_PROTOCOL_MINIMUM_VERSION), JSONParse(JSONStringify(f.replyObject)))
+})
+
+// FlushPlaybackStream
+test('FlushPlaybackStream query', t => {
+  const f = fixtures.playbackStream.flushPlaybackStream
+  const [requestId, channel] = f.queryParameters
+  t.is(FlushPlaybackStream.query(requestId, channel).write().toString('hex'), f.queryBuffer)
+})
+
+test('FlushPlaybackStream reply', t => {
+  const f = fixtures.playbackStream.flushPlaybackStream
+  const packet = new PAPacket(Buffer.from(f.replyBuffer, 'hex'))
+  t.deepEqual(FlushPlaybackStream.reply(packet, PA_PROTOCOL_MINIMUM_VERSION), JSONParse(JSONStringify(f.replyObject)))
+})
+
+// DrainPlaybackStream
+test('DrainPlaybackStream query', t => {
+  const f = fixtures.playbackStream.drainPlaybackStream
+  const [requestId, channel] = f.queryParameters
+  t.is(DrainPlaybackStream.query(requestId, channel).write().toString('hex'), f.queryBuffer)
+})
+
+test('DrainPlaybackStream reply', t => {
+  const f = fixtures.playbackStream.drainPlaybackStream
+  const packet = new PAPacket(Buffer.from(f.replyBuffer, 'hex'))
+  t.deepEqual(DrainPlaybackStream.reply(packet, PA_PROTOCOL_MINIMUM_VERSION), JSONParse(JSONStringify(f.replyObject)))
+})
+
+// GetPlaybackLatency
+test('GetPlaybackLatency query', t => {
+  const f = fixtures.playbackStream.getPlaybackLatency
+  const [requestId, channel, now] = f.queryParameters
+  t.is(GetPlaybackLatency.query(requestId, channel, now).write().toString('hex'), f.queryBuffer)
+})
+
+test('GetPlaybackLatency reply', t => {
+  const f = fixtures.playbackStream.getPlaybackLatency
+  const packet = new PAPacket(Buffer.from(f.replyBuffer, 'hex'))
+  t.deepEqual(GetPlaybackLatency.reply(packet, PA_PROTOCOL_MINIMUM_VERSION), JSONParse(JSONStringify(f.replyObject)))
+})
+
+// UpdatePlaybackStreamProperties
+test('UpdatePlaybackStreamProperties query', t => {
+  const f = fixtures.playbackStream.updatePlaybackStreamProperties
+  const [requestId, channel, mode, properties] = f.queryParameters
+  t.is(UpdatePlaybackStreamProperties.query(requestId, channel, mode, properties).write().toString('hex'), f.queryBuffer)
+})
+
+test('UpdatePlaybackStreamProperties reply', t => {
+  const f = fixtures.playbackStream.updatePlaybackStreamProperties
+  const packet = new PAPacket(Buffer.from(f.replyBuffer, 'hex'))
+  t.deepEqual(UpdatePlaybackStreamProperties.reply(packet, PA_PROTOCOL_MINIMUM_VERSION), JSONParse(JSONStringify(f.replyObject)))
+})
+
+// RemovePlaybackStreamProperties
+test('RemovePlaybackStreamProperties query', t => {
+  const f = fixtures.playbackStream.removePlaybackStreamProperties
+  const [requestId, channel, keys] = f.queryParameters
+  t.is(RemovePlaybackStreamProperties.query(requestId, channel, keys).write().toString('hex'), f.queryBuffer)
+})
+
+test('RemovePlaybackStreamProperties reply', t => {
+  const f = fixtures.playbackStream.removePlaybackStreamProperties
+  const packet = new PAPacket(Buffer.from(f.replyBuffer, 'hex'))
+  t.deepEqual(RemovePlaybackStreamProperties.reply(packet, PA_PROTOCOL_MINIMUM_VERSION), JSONParse(JSONStringify(f.replyObject)))
+})
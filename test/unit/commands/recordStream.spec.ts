@@ -0,0 +1,127 @@
+import test from 'ava'
+import { Buffer } from 'buffer'
+import { loadFixture, Dictionary, Fixture } from '../fixtures'
+import { CreateRecordStream, DeleteRecordStream, CorkRecordStream, FlushRecordStream, GetRecordLatency, UpdateRecordStreamProperties, RemoveRecordStreamProperties } from '../../../src/commands/recordStream'
+import { PA_PROTOCOL_MINIMUM_VERSION } from '../../../src/protocol'
+import PAPacket from '../../../src/packet'
+import { PAChannelMapDef, channelMapToString, initChannelMap } from '../../../src/channelmap'
+import { JSONParse, JSONStringify } from '../../../src/utils/bigInt'
+
+const fixtures: Dictionary<Fixture> = {}
+const fxToLoad = [
+  'recordStream'
+]
+
+test.before(async _t => {
+  for (const fx of fxToLoad) {
+    fixtures[fx] = await loadFixture(fx)
+  }
+})
+
+// CreateRecordStream
+test('CreateRecordStream query', t => {
+  const f = fixtures.recordStream.createRecordStream
+  const [requestId, options] = f.queryParameters
+  t.is(CreateRecordStream.query(requestId, options).write().toString('hex'), f.queryBuffer)
+})
+
+test('CreateRecordStream reply', t => {
+  const f = fixtures.recordStream.createRecordStream
+  const packet = new PAPacket(Buffer.from(f.replyBuffer, 'hex'))
+  t.deepEqual(CreateRecordStream.reply(packet, PA_PROTOCOL_MINIMUM_VERSION), JSONParse(JSONStringify(f.replyObject)))
+})
+
+test('CreateRecordStream query defaults to the AIFF channel map', t => {
+  const f = fixtures.recordStream.createRecordStream
+  const [requestId, options] = f.queryParameters
+  const sampleSpec = { ...options.sampleSpec, channels: 6 }
+  const defaultQuery: string = CreateRecordStream.query(requestId, { ...options, sampleSpec, channelMap: undefined }).write().toString('hex')
+  const explicitQuery: string = CreateRecordStream.query(requestId, { ...options, sampleSpec, channelMap: initChannelMap(6, PAChannelMapDef.AIFF) }).write().toString('hex')
+  t.is(defaultQuery, explicitQuery)
+  t.is(channelMapToString(initChannelMap(6, PAChannelMapDef.AIFF)), 'front-left,front-left-of-center,front-center,front-right,front-right-of-center,rear-center')
+})
+
+test('CreateRecordStream query requires a channel map for more than 6 channels', t => {
+  const f = fixtures.recordStream.createRecordStream
+  const [requestId, options] = f.queryParameters
+  const sampleSpec = { ...options.sampleSpec, channels: 8 }
+  t.throws(() => CreateRecordStream.query(requestId, { ...options, sampleSpec, channelMap: undefined }), { message: 'A channel map is required for streams with 8 channels.' })
+})
+
+// DeleteRecordStream
+test('DeleteRecordStream query', t => {
+  const f = fixtures.recordStream.deleteRecordStream
+  const [requestId, channel] = f.queryParameters
+  t.is(DeleteRecordStream.query(requestId, channel).write().toString('hex'), f.queryBuffer)
+})
+
+test('DeleteRecordStream reply', t => {
+  const f = fixtures.recordStream.deleteRecordStream
+  const packet = new PAPacket(Buffer.from(f.replyBuffer, 'hex'))
+  t.deepEqual(DeleteRecordStream.reply(packet, PA_PROTOCOL_MINIMUM_VERSION), JSONParse(JSONStringify(f.replyObject)))
+})
+
+// CorkRecordStream
+test('CorkRecordStream query', t => {
+  const f = fixtures.recordStream.corkRecordStream
+  const [requestId, channel, cork] = f.queryParameters
+  t.is(CorkRecordStream.query(requestId, channel, cork).write().toString('hex'), f.queryBuffer)
+})
+
+test('CorkRecordStream reply', t => {
+  const f = fixtures.recordStream.corkRecordStream
+  const packet = new PAPacket(Buffer.from(f.replyBuffer, 'hex'))
+  t.deepEqual(CorkRecordStream.reply(packet, PA_PROTOCOL_MINIMUM_VERSION), JSONParse(JSONStringify(f.replyObject)))
+})
+
+// FlushRecordStream
+test('FlushRecordStream query', t => {
+  const f = fixtures.recordStream.flushRecordStream
+  const [requestId, channel] = f.queryParameters
+  t.is(FlushRecordStream.query(requestId, channel).write().toString('hex'), f.queryBuffer)
+})
+
+test('FlushRecordStream reply', t => {
+  const f = fixtures.recordStream.flushRecordStream
+  const packet = new PAPacket(Buffer.from(f.replyBuffer, 'hex'))
+  t.deepEqual(FlushRecordStream.reply(packet, PA_PROTOCOL_MINIMUM_VERSION), JSONParse(JSONStringify(f.replyObject)))
+})
+
+// GetRecordLatency
+test('GetRecordLatency query', t => {
+  const f = fixtures.recordStream.getRecordLatency
+  const [requestId, channel, now] = f.queryParameters
+  t.is(GetRecordLatency.query(requestId, channel, now).write().toString('hex'), f.queryBuffer)
+})
+
+test('GetRecordLatency reply', t => {
+  const f = fixtures.recordStream.getRecordLatency
+  const packet = new PAPacket(Buffer.from(f.replyBuffer, 'hex'))
+  t.deepEqual(GetRecordLatency.reply(packet, PA_PROTOCOL_MINIMUM_VERSION), JSONParse(JSONStringify(f.replyObject)))
+})
+
+// UpdateRecordStreamProperties
+test('UpdateRecordStreamProperties query', t => {
+  const f = fixtures.recordStream.updateRecordStreamProperties
+  const [requestId, channel, mode, properties] = f.queryParameters
+  t.is(UpdateRecordStreamProperties.query(requestId, channel, mode, properties).write().toString('hex'), f.queryBuffer)
+})
+
+test('UpdateRecordStreamProperties reply', t => {
+  const f = fixtures.recordStream.updateRecordStreamProperties
+  const packet = new PAPacket(Buffer.from(f.replyBuffer, 'hex'))
+  t.deepEqual(UpdateRecordStreamProperties.reply(packet, PA_PROTOCOL_MINIMUM_VERSION), JSONParse(JSONStringify(f.replyObject)))
+})
+
+// RemoveRecordStreamProperties
+test('RemoveRecordStreamProperties query', t => {
+  const f = fixtures.recordStream.removeRecordStreamProperties
+  const [requestId, channel, keys] = f.queryParameters
+  t.is(RemoveRecordStreamProperties.query(requestId, channel, keys).write().toString('hex'), f.queryBuffer)
+})
+
+test('RemoveRecordStreamProperties reply', t => {
+  const f = fixtures.recordStream.removeRecordStreamProperties
+  const packet = new PAPacket(Buffer.from(f.replyBuffer, 'hex'))
+  t.deepEqual(RemoveRecordStreamProperties.reply(packet, PA_PROTOCOL_MINIMUM_VERSION), JSONParse(JSONStringify(f.replyObject)))
+})
@@ -0,0 +1,96 @@
+import test from 'ava'
+import { Buffer } from 'buffer'
+import { loadFixture, Dictionary, Fixture } from '../fixtures'
+import { CreateUploadStream, FinishUploadStream, PlaySample, RemoveSample, GetSample, GetSampleList } from '../../../src/commands/sample'
+import { PA_PROTOCOL_MINIMUM_VERSION } from '../../../src/protocol'
+import PAPacket from '../../../src/packet'
+import { JSONParse, JSONStringify } from '../../../src/utils/bigInt'
+
+const fixtures: Dictionary<Fixture> = {}
+const fxToLoad = [
+  'sample'
+]
+
+test.before(async _t => {
+  for (const fx of fxToLoad) {
+    fixtures[fx] = await loadFixture(fx)
+  }
+})
+
+// CreateUploadStream
+test('CreateUploadStream query', t => {
+  const f = fixtures.sample.createUploadStream
+  const [requestId, name, sampleSpec, channelMap, length, properties] = f.queryParameters
+  t.is(CreateUploadStream.query(requestId, name, sampleSpec, channelMap, length, properties).write().toString('hex'), f.queryBuffer)
+})
+
+test('CreateUploadStream reply', t => {
+  const f = fixtures.sample.createUploadStream
+  const packet = new PAPacket(Buffer.from(f.replyBuffer, 'hex'))
+  t.deepEqual(CreateUploadStream.reply(packet, PA_PROTOCOL_MINIMUM_VERSION), JSONParse(JSONStringify(f.replyObject)))
+})
+
+// FinishUploadStream
+test('FinishUploadStream query', t => {
+  const f = fixtures.sample.finishUploadStream
+  const [requestId, channel] = f.queryParameters
+  t.is(FinishUploadStream.query(requestId, channel).write().toString('hex'), f.queryBuffer)
+})
+
+test('FinishUploadStream reply', t => {
+  const f = fixtures.sample.finishUploadStream
+  const packet = new PAPacket(Buffer.from(f.replyBuffer, 'hex'))
+  t.deepEqual(FinishUploadStream.reply(packet, PA_PROTOCOL_MINIMUM_VERSION), JSONParse(JSONStringify(f.replyObject)))
+})
+
+// PlaySample
+test('PlaySample query', t => {
+  const f = fixtures.sample.playSample
+  const [requestId, name, sink, volume, properties] = f.queryParameters
+  t.is(PlaySample.query(requestId, name, sink, volume, properties).write().toString('hex'), f.queryBuffer)
+})
+
+test('PlaySample reply', t => {
+  const f = fixtures.sample.playSample
+  const packet = new PAPacket(Buffer.from(f.replyBuffer, 'hex'))
+  t.deepEqual(PlaySample.reply(packet, PA_PROTOCOL_MINIMUM_VERSION), JSONParse(JSONStringify(f.replyObject)))
+})
+
+// RemoveSample
+test('RemoveSample query', t => {
+  const f = fixtures.sample.removeSample
+  const [requestId, name] = f.queryParameters
+  t.is(RemoveSample.query(requestId, name).write().toString('hex'), f.queryBuffer)
+})
+
+test('RemoveSample reply', t => {
+  const f = fixtures.sample.removeSample
+  const packet = new PAPacket(Buffer.from(f.replyBuffer, 'hex'))
+  t.deepEqual(RemoveSample.reply(packet, PA_PROTOCOL_MINIMUM_VERSION), JSONParse(JSONStringify(f.replyObject)))
+})
+
+// GetSample
+test('GetSample query', t => {
+  const f = fixtures.sample.getSample
+  const [requestId, sample] = f.queryParameters
+  t.is(GetSample.query(requestId, sample).write().toString('hex'), f.queryBuffer)
+})
+
+test('GetSample reply', t => {
+  const f = fixtures.sample.getSample
+  const packet = new PAPacket(Buffer.from(f.replyBuffer, 'hex'))
+  t.deepEqual(GetSample.reply(packet, PA_PROTOCOL_MINIMUM_VERSION), JSONParse(JSONStringify(f.replyObject)))
+})
+
+// GetSampleList
+test('GetSampleList query', t => {
+  const f = fixtures.sample.getSampleList
+  const [requestId] = f.queryParameters
+  t.is(GetSampleList.query(requestId).write().toString('hex'), f.queryBuffer)
+})
+
+test('GetSampleList reply', t => {
+  const f = fixtures.sample.getSampleList
+  const packet = new PAPacket(Buffer.from(f.replyBuffer, 'hex'))
+  t.deepEqual(GetSampleList.reply(packet, PA_PROTOCOL_MINIMUM_VERSION), JSONParse(JSONStringify(f.replyObject)))
+})
@@ -4,7 +4,7 @@ import { loadFixture, Dictionary, Fixture } from '../fixtures'
 import { PA_PROTOCOL_MINIMUM_VERSION } from '../../../src/protocol'
 import PAPacket from '../../../src/packet'
 import { JSONParse, JSONStringify } from '../../../src/utils/bigInt'
-import { Authenticate, GetServerInfo, Subscribe } from '../../../src/commands/server'
+import { Authenticate, GetServerInfo, GetStats, Subscribe, SetDefaultSink, SetDefaultSource } from '../../../src/commands/server'
 
 const fixtures: Dictionary<Fixture> = {}
 const fxToLoad = [
@@ -43,6 +43,19 @@ test('GetServerInfo reply', t => {
   t.deepEqual(GetServerInfo.reply(packet, PA_PROTOCOL_MINIMUM_VERSION), JSONParse(JSONStringify(f.replyObject)))
 })
 
+// GetStats
+test('GetStats query', t => {
+  const f = fixtures.server.getStats
+  const [requestId] = f.queryParameters
+  t.is(GetStats.query(requestId).write().toString('hex'), f.queryBuffer)
+})
+
+test('GetStats reply', t => {
+  const f = fixtures.server.getStats
+  const packet = new PAPacket(Buffer.from(f.replyBuffer, 'hex'))
+  t.deepEqual(GetStats.reply(packet, PA_PROTOCOL_MINIMUM_VERSION), JSONParse(JSONStringify(f.replyObject)))
+})
+
 // Subscribe
 test('Subscribe query', t => {
   const f = fixtures.server.subscribe
@@ -55,3 +68,29 @@ test('Subscribe reply', t => {
   const packet = new PAPacket(Buffer.from(f.replyBuffer, 'hex'))
   t.deepEqual(Subscribe.reply(packet, PA_PROTOCOL_MINIMUM_VERSION), JSONParse(JSONStringify(f.replyObject)))
 })
+
+// SetDefaultSink
+test('SetDefaultSink query', t => {
+  const f = fixtures.server.setDefaultSink
+  const [requestId, sinkName] = f.queryParameters
+  t.is(SetDefaultSink.query(requestId, sinkName).write().toString('hex'), f.queryBuffer)
+})
+
+test('SetDefaultSink reply', t => {
+  const f = fixtures.server.setDefaultSink
+  const packet = new PAPacket(Buffer.from(f.replyBuffer, 'hex'))
+  t.deepEqual(SetDefaultSink.reply(packet, PA_PROTOCOL_MINIMUM_VERSION), JSONParse(JSONStringify(f.replyObject)))
+})
+
+// SetDefaultSource
+test('SetDefaultSource query', t => {
+  const f = fixtures.server.setDefaultSource
+  const [requestId, sourceName] = f.queryParameters
+  t.is(SetDefaultSource.query(requestId, sourceName).write().toString('hex'), f.queryBuffer)
+})
+
+test('SetDefaultSource reply', t => {
+  const f = fixtures.server.setDefaultSource
+  const packet = new PAPacket(Buffer.from(f.replyBuffer, 'hex'))
+  t.deepEqual(SetDefaultSource.reply(packet, PA_PROTOCOL_MINIMUM_VERSION), JSONParse(JSONStringify(f.replyObject)))
+})
@@ -1,7 +1,7 @@
 import test from 'ava'
 import { Buffer } from 'buffer'
 import { loadFixture, Dictionary, Fixture } from '../fixtures'
-import { GetSink, GetSinkList, SetSinkVolume } from '../../../src/commands/sink'
+import { GetSink, GetSinkList, SetSinkVolume, SetSinkMute, SetSinkPort, SuspendSink, LookupSink } from '../../../src/commands/sink'
 import { PA_PROTOCOL_MINIMUM_VERSION } from '../../../src/protocol'
 import PAPacket from '../../../src/packet'
 import { JSONParse, JSONStringify } from '../../../src/utils/bigInt'
@@ -55,3 +55,68 @@ test('SetSinkVolume reply', t => {
   const packet = new PAPacket(Buffer.from(f.replyBuffer, 'hex'))
   t.deepEqual(SetSinkVolume.reply(packet, PA_PROTOCOL_MINIMUM_VERSION), JSONParse(JSONStringify(f.replyObject)))
 })
+
+// SetSinkMute
+test('SetSinkMute query', t => {
+  const f = fixtures.sink.setSinkMute
+  const [requestId, sinkIndex, mute] = f.queryParameters
+  t.is(SetSinkMute.query(requestId, sinkIndex, mute).write().toString('hex'), f.queryBuffer)
+})
+
+test('SetSinkMute reply', t => {
+  const f = fixtures.sink.setSinkMute
+  const packet = new PAPacket(Buffer.from(f.replyBuffer, 'hex'))
+  t.deepEqual(SetSinkMute.reply(packet, PA_PROTOCOL_MINIMUM_VERSION), JSONParse(JSONStringify(f.replyObject)))
+})
+
+// SetSinkMute by name
+test('SetSinkMute by name query', t => {
+  const f = fixtures.sink.setSinkMuteByName
+  const [requestId, sinkName, mute] = f.queryParameters
+  t.is(SetSinkMute.query(requestId, sinkName, mute).write().toString('hex'), f.queryBuffer)
+})
+
+// SetSinkPort
+test('SetSinkPort query', t => {
+  const f = fixtures.sink.setSinkPort
+  const [requestId, sinkIndex, port] = f.queryParameters
+  t.is(SetSinkPort.query(requestId, sinkIndex, port).write().toString('hex'), f.queryBuffer)
+})
+
+test('SetSinkPort reply', t => {
+  const f = fixtures.sink.setSinkPort
+  const packet = new PAPacket(Buffer.from(f.replyBuffer, 'hex'))
+  t.deepEqual(SetSinkPort.reply(packet, PA_PROTOCOL_MINIMUM_VERSION), JSONParse(JSONStringify(f.replyObject)))
+})
+
+// SuspendSink
+test('SuspendSink query', t => {
+  const f = fixtures.sink.suspendSink
+  const [requestId, sinkIndex, suspend] = f.queryParameters
+  t.is(SuspendSink.query(requestId, sinkIndex, suspend).write().toString('hex'), f.queryBuffer)
+})
+
+test('SuspendSink query for all sinks', t => {
+  const f = fixtures.sink.suspendAllSinks
+  const [requestId, sink, suspend] = f.queryParameters
+  t.is(SuspendSink.query(requestId, sink, suspend).write().toString('hex'), f.queryBuffer)
+})
+
+test('SuspendSink reply', t => {
+  const f = fixtures.sink.suspendSink
+  const packet = new PAPacket(Buffer.from(f.replyBuffer, 'hex'))
+  t.deepEqual(SuspendSink.reply(packet, PA_PROTOCOL_MINIMUM_VERSION), JSONParse(JSONStringify(f.replyObject)))
+})
+
+// LookupSink
+test('LookupSink query', t => {
+  const f = fixtures.sink.lookupSink
+  const [requestId, sinkName] = f.queryParameters
+  t.is(LookupSink.query(requestId, sinkName).write().toString('hex'), f.queryBuffer)
+})
+
+test('LookupSink reply', t => {
+  const f = fixtures.sink.lookupSink
+  const packet = new PAPacket(Buffer.from(f.replyBuffer, 'hex'))
+  t.deepEqual(LookupSink.reply(packet, PA_PROTOCOL_MINIMUM_VERSION), JSONParse(JSONStringify(f.replyObject)))
+})
@@ -4,7 +4,7 @@ import { loadFixture, Dictionary, Fixture } from '../fixtures'
 import { PA_PROTOCOL_MINIMUM_VERSION } from '../../../src/protocol'
 import PAPacket from '../../../src/packet'
 import { JSONParse, JSONStringify } from '../../../src/utils/bigInt'
-import { GetSinkInput, GetSinkInputList, MoveSinkInput } from '../../../src/commands/sinkInput'
+import { GetSinkInput, GetSinkInputList, MoveSinkInput, SetSinkInputMute, SetSinkInputVolume, KillSinkInput } from '../../../src/commands/sinkInput'
 
 const fixtures: Dictionary<Fixture> = {}
 const fxToLoad = [
@@ -55,3 +55,49 @@ test('MoveSinkInput reply', t => {
   const packet = new PAPacket(Buffer.from(f.replyBuffer, 'hex'))
   t.deepEqual(MoveSinkInput.reply(packet, PA_PROTOCOL_MINIMUM_VERSION), JSONParse(JSONStringify(f.replyObject)))
 })
+
+// MoveSinkInput by name
+test('MoveSinkInput by name query', t => {
+  const f = fixtures.sinkInput.moveSinkInputByName
+  const [requestId, sinkInputIndex, sinkName] = f.queryParameters
+  t.is(MoveSinkInput.query(requestId, sinkInputIndex, sinkName).write().toString('hex'), f.queryBuffer)
+})
+
+// SetSinkInputMute
+test('SetSinkInputMute query', t => {
+  const f = fixtures.sinkInput.setSinkInputMute
+  const [requestId, sinkInputIndex, mute] = f.queryParameters
+  t.is(SetSinkInputMute.query(requestId, sinkInputIndex, mute).write().toString('hex'), f.queryBuffer)
+})
+
+test('SetSinkInputMute reply', t => {
+  const f = fixtures.sinkInput.setSinkInputMute
+  const packet = new PAPacket(Buffer.from(f.replyBuffer, 'hex'))
+  t.deepEqual(SetSinkInputMute.reply(packet, PA_PROTOCOL_MINIMUM_VERSION), JSONParse(JSONStringify(f.replyObject)))
+})
+
+// SetSinkInputVolume
+test('SetSinkInputVolume query', t => {
+  const f = fixtures.sinkInput.setSinkInputVolume
+  const [requestId, sinkInputIndex, channelVolume] = f.queryParameters
+  t.is(SetSinkInputVolume.query(requestId, sinkInputIndex, channelVolume).write().toString('hex'), f.queryBuffer)
+})
+
+test('SetSinkInputVolume reply', t => {
+  const f = fixtures.sinkInput.setSinkInputVolume
+  const packet = new PAPacket(Buffer.from(f.replyBuffer, 'hex'))
+  t.deepEqual(SetSinkInputVolume.reply(packet, PA_PROTOCOL_MINIMUM_VERSION), JSONParse(JSONStringify(f.replyObject)))
+})
+
+// KillSinkInput
+test('KillSinkInput query', t => {
+  const f = fixtures.sinkInput.killSinkInput
+  const [requestId, sinkInputIndex] = f.queryParameters
+  t.is(KillSinkInput.query(requestId, sinkInputIndex).write().toString('hex'), f.queryBuffer)
+})
+
+test('KillSinkInput reply', t => {
+  const f = fixtures.sinkInput.killSinkInput
+  const packet = new PAPacket(Buffer.from(f.replyBuffer, 'hex'))
+  t.deepEqual(KillSinkInput.reply(packet, PA_PROTOCOL_MINIMUM_VERSION), JSONParse(JSONStringify(f.replyObject)))
+})
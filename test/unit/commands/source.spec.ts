@@ -1,7 +1,7 @@
 import test from 'ava'
 import { Buffer } from 'buffer'
 import { loadFixture, Dictionary, Fixture } from '../fixtures'
-import { GetSource, GetSourceList, SetSourceVolume } from '../../../src/commands/source'
+import { GetSource, GetSourceList, SetSourceVolume, SetSourceMute, SetSourcePort, SuspendSource, LookupSource } from '../../../src/commands/source'
 import { PA_PROTOCOL_MINIMUM_VERSION } from '../../../src/protocol'
 import PAPacket from '../../../src/packet'
 import { JSONParse, JSONStringify } from '../../../src/utils/bigInt'
@@ -61,3 +61,55 @@ test('SetSourceVolume reply', t => {
   const packet = new PAPacket(Buffer.from(f.replyBuffer, 'hex'))
   t.deepEqual(SetSourceVolume.reply(packet, PA_PROTOCOL_MINIMUM_VERSION), JSONParse(JSONStringify(f.replyObject)))
 })
+
+// SetSourceMute
+test('SetSourceMute query', t => {
+  const f = fixtures.source.setSourceMute
+  const [requestId, sourceName, mute] = f.queryParameters
+  t.is(SetSourceMute.query(requestId, sourceName, mute).write().toString('hex'), f.queryBuffer)
+})
+
+test('SetSourceMute reply', t => {
+  const f = fixtures.source.setSourceMute
+  const packet = new PAPacket(Buffer.from(f.replyBuffer, 'hex'))
+  t.deepEqual(SetSourceMute.reply(packet, PA_PROTOCOL_MINIMUM_VERSION), JSONParse(JSONStringify(f.replyObject)))
+})
+
+// SetSourcePort
+test('SetSourcePort query', t => {
+  const f = fixtures.source.setSourcePort
+  const [requestId, sourceName, port] = f.queryParameters
+  t.is(SetSourcePort.query(requestId, sourceName, port).write().toString('hex'), f.queryBuffer)
+})
+
+test('SetSourcePort reply', t => {
+  const f = fixtures.source.setSourcePort
+  const packet = new PAPacket(Buffer.from(f.replyBuffer, 'hex'))
+  t.deepEqual(SetSourcePort.reply(packet, PA_PROTOCOL_MINIMUM_VERSION), JSONParse(JSONStringify(f.replyObject)))
+})
+
+// SuspendSource
+test('SuspendSource query', t => {
+  const f = fixtures.source.suspendSource
+  const [requestId, sourceName, suspend] = f.queryParameters
+  t.is(SuspendSource.query(requestId, sourceName, suspend).write().toString('hex'), f.queryBuffer)
+})
+
+test('SuspendSource reply', t => {
+  const f = fixtures.source.suspendSource
+  const packet = new PAPacket(Buffer.from(f.replyBuffer, 'hex'))
+  t.deepEqual(SuspendSource.reply(packet, PA_PROTOCOL_MINIMUM_VERSION), JSONParse(JSONStringify(f.replyObject)))
+})
+
+// LookupSource
+test('LookupSource query', t => {
+  const f = fixtures.source.lookupSource
+  const [requestId, sourceName] = f.queryParameters
+  t.is(LookupSource.query(requestId, sourceName).write().toString('hex'), f.queryBuffer)
+})
+
+test('LookupSource reply', t => {
+  const f = fixtures.source.lookupSource
+  const packet = new PAPacket(Buffer.from(f.replyBuffer, 'hex'))
+  t.deepEqual(LookupSource.reply(packet, PA_PROTOCOL_MINIMUM_VERSION), JSONParse(JSONStringify(f.replyObject)))
+})
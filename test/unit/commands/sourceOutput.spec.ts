@@ -4,7 +4,7 @@ import { loadFixture, Dictionary, Fixture } from '../fixtures'
 import { PA_PROTOCOL_MINIMUM_VERSION } from '../../../src/protocol'
 import PAPacket from '../../../src/packet'
 import { JSONParse, JSONStringify } from '../../../src/utils/bigInt'
-import { GetSourceOutput, GetSourceOutputList, MoveSourceOutput } from '../../../src/commands/sourceOutput'
+import { GetSourceOutput, GetSourceOutputList, MoveSourceOutput, SetSourceOutputMute, SetSourceOutputVolume, KillSourceOutput } from '../../../src/commands/sourceOutput'
 
 const fixtures: Dictionary<Fixture> = {}
 const fxToLoad = [
@@ -55,3 +55,49 @@ test('MoveSourceOutput reply', t => {
   const packet = new PAPacket(Buffer.from(f.replyBuffer, 'hex'))
   t.deepEqual(MoveSourceOutput.reply(packet, PA_PROTOCOL_MINIMUM_VERSION), JSONParse(JSONStringify(f.replyObject)))
 })
+
+// MoveSourceOutput by name
+test('MoveSourceOutput by name query', t => {
+  const f = fixtures.sourceOutput.moveSourceOutputByName
+  const [requestId, sourceOutputIndex, sourceName] = f.queryParameters
+  t.is(MoveSourceOutput.query(requestId, sourceOutputIndex, sourceName).write().toString('hex'), f.queryBuffer)
+})
+
+// SetSourceOutputMute
+test('SetSourceOutputMute query', t => {
+  const f = fixtures.sourceOutput.setSourceOutputMute
+  const [requestId, sourceOutputIndex, mute] = f.queryParameters
+  t.is(SetSourceOutputMute.query(requestId, sourceOutputIndex, mute).write().toString('hex'), f.queryBuffer)
+})
+
+test('SetSourceOutputMute reply', t => {
+  const f = fixtures.sourceOutput.setSourceOutputMute
+  const packet = new PAPacket(Buffer.from(f.replyBuffer, 'hex'))
+  t.deepEqual(SetSourceOutputMute.reply(packet, PA_PROTOCOL_MINIMUM_VERSION), JSONParse(JSONStringify(f.replyObject)))
+})
+
+// SetSourceOutputVolume
+test('SetSourceOutputVolume query', t => {
+  const f = fixtures.sourceOutput.setSourceOutputVolume
+  const [requestId, sourceOutputIndex, channelVolume] = f.queryParameters
+  t.is(SetSourceOutputVolume.query(requestId, sourceOutputIndex, channelVolume).write().toString('hex'), f.queryBuffer)
+})
+
+test('SetSourceOutputVolume reply', t => {
+  const f = fixtures.sourceOutput.setSourceOutputVolume
+  const packet = new PAPacket(Buffer.from(f.replyBuffer, 'hex'))
+  t.deepEqual(SetSourceOutputVolume.reply(packet, PA_PROTOCOL_MINIMUM_VERSION), JSONParse(JSONStringify(f.replyObject)))
+})
+
+// KillSourceOutput
+test('KillSourceOutput query', t => {
+  const f = fixtures.sourceOutput.killSourceOutput
+  const [requestId, sourceOutputIndex] = f.queryParameters
+  t.is(KillSourceOutput.query(requestId, sourceOutputIndex).write().toString('hex'), f.queryBuffer)
+})
+
+test('KillSourceOutput reply', t => {
+  const f = fixtures.sourceOutput.killSourceOutput
+  const packet = new PAPacket(Buffer.from(f.replyBuffer, 'hex'))
+  t.deepEqual(KillSourceOutput.reply(packet, PA_PROTOCOL_MINIMUM_VERSION), JSONParse(JSONStringify(f.replyObject)))
+})
@@ -0,0 +1,66 @@
+import test from 'ava'
+import { Buffer } from 'buffer'
+
+import PAFrameParser, { PA_CONTROL_CHANNEL, PA_FRAME_SIZE_MAX } from '../../src/frame'
+import PAPacket from '../../src/packet'
+import PAMemblock from '../../src/memblock'
+
+const replyBuffer: Buffer = Buffer.from('0000000affffffff0000000000000000000000004c000000024c00000003', 'hex')
+const memblockBuffer: Buffer = Buffer.from('00000004000000020000000000000000000000000a0b0c0d', 'hex')
+
+test('Read control packet frame', t => {
+  const parser: PAFrameParser = new PAFrameParser()
+  parser.push(replyBuffer)
+  const frame = parser.next()
+  t.true(frame instanceof PAPacket)
+  t.is((frame as PAPacket).requestId.value, 3)
+  t.is(parser.next(), undefined)
+  t.is(parser.pendingLength, 0)
+})
+
+test('Read memblock frame', t => {
+  const parser: PAFrameParser = new PAFrameParser()
+  parser.push(memblockBuffer)
+  const frame = parser.next()
+  t.true(frame instanceof PAMemblock)
+  t.is((frame as PAMemblock).channel, 2)
+  t.deepEqual((frame as PAMemblock).data, Buffer.from('0a0b0c0d', 'hex'))
+})
+
+test('Read frame split across chunks', t => {
+  const parser: PAFrameParser = new PAFrameParser()
+  parser.push(replyBuffer.subarray(0, 3))
+  t.is(parser.next(), undefined)
+  parser.push(replyBuffer.subarray(3, 25))
+  t.is(parser.next(), undefined)
+  parser.push(replyBuffer.subarray(25))
+  t.true(parser.next() instanceof PAPacket)
+})
+
+test('Read interleaved packets and memblocks from one chunk', t => {
+  const parser: PAFrameParser = new PAFrameParser()
+  parser.push(Buffer.concat([memblockBuffer, replyBuffer, memblockBuffer.subarray(0, 10)]))
+  t.true(parser.next() instanceof PAMemblock)
+  t.true(parser.next() instanceof PAPacket)
+  t.is(parser.next(), undefined)
+  t.is(parser.pendingLength, 10)
+  parser.push(memblockBuffer.subarray(10))
+  t.true(parser.next() instanceof PAMemblock)
+})
+
+test('Read frame descriptor', t => {
+  t.deepEqual(PAFrameParser.readDescriptor(replyBuffer), {
+    length: 10,
+    channel: PA_CONTROL_CHANNEL,
+    offset: BigInt(0),
+    flags: 0
+  })
+})
+
+test('Throw error on oversized frame', t => {
+  const parser: PAFrameParser = new PAFrameParser()
+  const descriptor: Buffer = Buffer.alloc(20)
+  descriptor.writeUInt32BE(PA_FRAME_SIZE_MAX + 1, 0)
+  parser.push(descriptor)
+  t.throws(() => parser.next())
+})
@@ -0,0 +1,24 @@
+import test from 'ava'
+import { Buffer } from 'buffer'
+
+import PAMemblock, { PA_MEMBLOCK_MAX_SIZE } from '../../src/memblock'
+
+test('Write memblock frame: descriptor and payload', t => {
+  const memblock: PAMemblock = new PAMemblock(3, Buffer.from('0102030405060708', 'hex'))
+  t.is(memblock.write().toString('hex'), '00000008000000030000000000000000000000000102030405060708')
+})
+
+test('Split payload into memblock frames', t => {
+  const memblocks: PAMemblock[] = PAMemblock.fromData(1, Buffer.alloc(PA_MEMBLOCK_MAX_SIZE + 10))
+  t.is(memblocks.length, 2)
+  t.is(memblocks[0].data.length, PA_MEMBLOCK_MAX_SIZE)
+  t.is(memblocks[1].data.length, 10)
+  t.is(memblocks[1].channel, 1)
+})
+
+test('Read memblock frame from buffer with trailing data', t => {
+  const memblock: PAMemblock = PAMemblock.read(Buffer.from('00000004000000020000000000000000000000000a0b0c0d00000014ffffffff', 'hex'))
+  t.is(memblock.channel, 2)
+  t.deepEqual(memblock.data, Buffer.from('0a0b0c0d', 'hex'))
+  t.is(memblock.frame.length, 24)
+})
@@ -1,10 +1,12 @@
 import test from 'ava'
 import { Buffer } from 'buffer'
 
-import { PA_NATIVE_COMMAND_NAMES } from '../../src/commands'
+import { PA_NATIVE_COMMAND_NAMES, readFormats } from '../../src/commands'
+import { PAEncoding } from '../../src/format'
 import PAPacket, { PA_PACKET_HEADER } from '../../src/packet'
 import { PA_MAX_REQUEST_ID } from '../../src/protocol'
 import { PAU32, PAArbitrary } from '../../src/tag'
+import { Format } from '../../src/types/pulseaudio'
 
 const data = {
   requestId: Math.floor(Math.random() * PA_MAX_REQUEST_ID),
@@ -78,3 +80,18 @@ test('Build packet from buffer that is longer than packet', t => {
     new PAU32(Buffer.from('4c00000001', 'hex'))
   ])
 })
+
+test('Format lists survive a packet round trip', t => {
+  const formats: Format[] = [{ encoding: PAEncoding.PCM, properties: [] }, { encoding: PAEncoding.AC3_IEC61937, properties: [['format.rate', '48000']] }]
+  const query: PAPacket = new PAPacket()
+  query.setCommand(PA_NATIVE_COMMAND_NAMES.PA_COMMAND_REPLY)
+  query.setRequestId(1)
+  query.putFormats([])
+  query.putFormats(formats)
+  query.putU32(7)
+
+  const tags = new PAPacket(query.write()).getTagsIterable()
+  t.deepEqual(readFormats(tags), [])
+  t.deepEqual(readFormats(tags), formats)
+  t.is(tags.nextValue(), 7)
+})
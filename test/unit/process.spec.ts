@@ -0,0 +1,26 @@
+import test from 'ava'
+import * as os from 'os'
+import { getProcessProperties } from '../../src/process'
+
+test('getProcessProperties describes the running Node.js process', t => {
+  const properties = getProcessProperties()
+  t.is(properties['application.process.id'], String(process.pid))
+  t.is(properties['application.process.host'], os.hostname())
+  t.is(properties['application.process.binary'], process.execPath.split('/').pop())
+  t.is(typeof properties['application.process.user'], 'string')
+})
+
+test('getProcessProperties leaves the application name to the caller', t => {
+  t.is(getProcessProperties()['application.name'], undefined)
+})
+
+test.serial('getProcessProperties skips empty locale variables', t => {
+  const env = { ...process.env }
+  t.teardown(() => { process.env = env })
+
+  process.env = { ...env, LC_ALL: '', LC_MESSAGES: '', LANG: 'de_DE.UTF-8' }
+  t.is(getProcessProperties()['application.language'], 'de_DE.UTF-8')
+
+  process.env = { ...env, LC_ALL: '', LC_MESSAGES: '', LANG: '' }
+  t.is(getProcessProperties()['application.language'], 'C')
+})
@@ -0,0 +1,47 @@
+import test from 'ava'
+import { Buffer } from 'buffer'
+
+import { PAPropKey, PropList } from '../../src/proplist'
+
+test('PropList keeps the order of the properties', t => {
+  const properties: PropList = new PropList({ 'application.name': 'test', 'media.role': 'music' })
+  t.deepEqual(properties.toArray(), [['application.name', 'test'], ['media.role', 'music']])
+})
+
+test('PropList leaves out undefined properties', t => {
+  const properties: PropList = new PropList({ 'application.name': 'test', 'application.process.host': undefined })
+  t.deepEqual(properties.toArray(), [['application.name', 'test']])
+})
+
+test('PropList reads well-known properties', t => {
+  const properties: PropList = new PropList([
+    ['device.description', 'Built-in Audio Analog Stereo'],
+    ['device.form_factor', 'headphone'],
+    ['device.bus', 'pci'],
+    ['application.process.id', '1234'],
+    ['node.name', 'alsa_output.pci-0000_00_1f.3.analog-stereo']
+  ])
+  t.is(properties.size, 5)
+  t.is(properties.deviceDescription, 'Built-in Audio Analog Stereo')
+  t.is(properties.deviceFormFactor, 'headphone')
+  t.is(properties.deviceBus, 'pci')
+  t.is(properties.processId, 1234)
+  t.is(properties.nodeName, 'alsa_output.pci-0000_00_1f.3.analog-stereo')
+  t.is(properties.mediaRole, undefined)
+})
+
+test('PropList keeps binary properties as buffers', t => {
+  const icon: Buffer = Buffer.from('89504e470001', 'hex')
+  const properties: PropList = new PropList([['application.icon', icon], [PAPropKey.MEDIA_NAME, 'Café']])
+  t.is(properties.get('application.icon'), undefined)
+  t.deepEqual(properties.getBinary('application.icon'), icon)
+  t.deepEqual(properties.getBinary(PAPropKey.MEDIA_NAME), Buffer.from('436166c3a9', 'hex'))
+})
+
+test('PropList updates properties', t => {
+  const properties: PropList = new PropList().set(PAPropKey.MEDIA_ROLE, 'music').set(PAPropKey.MEDIA_ROLE, 'game')
+  t.true(properties.has(PAPropKey.MEDIA_ROLE))
+  t.is(properties.mediaRole, 'game')
+  t.true(properties.delete(PAPropKey.MEDIA_ROLE))
+  t.deepEqual(Array.from(properties.keys()), [])
+})
@@ -0,0 +1,117 @@
+import test from 'ava'
+import {
+  PASampleFormat,
+  getBytesPerSecond,
+  getFrameSize,
+  getSampleSize,
+  parseSampleFormat,
+  parseSampleSpec,
+  sampleFormatToString,
+  sampleSpecToString
+} from '../../src/sample'
+import {
+  PAChannelMapDef,
+  PAChannelPosition,
+  channelMapFromPreset,
+  channelMapToString,
+  channelPositionToPrettyString,
+  channelPositionToString,
+  initChannelMap,
+  parseChannelMap,
+  parseChannelPosition
+} from '../../src/channelmap'
+import { PAEncoding, encodingToString, parseEncoding } from '../../src/format'
+import { SampleSpec } from '../../src/types/pulseaudio'
+
+const s16Stereo: SampleSpec = { format: PASampleFormat.S16LE, channels: 2, rate: 44100 }
+
+test('getFrameSize multiplies the sample size by the channel count', t => {
+  t.is(getFrameSize(s16Stereo), 4)
+  t.is(getFrameSize({ format: PASampleFormat.FLOAT32LE, channels: 6, rate: 48000 }), 24)
+  t.is(getFrameSize({ format: PASampleFormat.S24LE, channels: 1, rate: 48000 }), 3)
+})
+
+test('getFrameSize rejects unknown sample formats', t => {
+  t.throws(() => getFrameSize({ format: 13 as PASampleFormat, channels: 2, rate: 44100 }), { message: 'Unknown sample format 13.' })
+})
+
+test('getSampleSize and getBytesPerSecond follow pa_sample_size_of_format and pa_bytes_per_second', t => {
+  t.is(getSampleSize(PASampleFormat.ULAW), 1)
+  t.is(getSampleSize(PASampleFormat.S24_32BE), 4)
+  t.is(getBytesPerSecond(s16Stereo), 176400)
+})
+
+test('sampleFormatToString and parseSampleFormat use the names pactl prints', t => {
+  t.is(sampleFormatToString(PASampleFormat.S16LE), 's16le')
+  t.is(sampleFormatToString(PASampleFormat.S24_32LE), 's24-32le')
+  t.is(parseSampleFormat('aLaw'), PASampleFormat.ALAW)
+  t.is(parseSampleFormat('FLOAT32LE'), PASampleFormat.FLOAT32LE)
+  t.throws(() => parseSampleFormat('s8'), { message: 'Unknown sample format "s8".' })
+})
+
+test('sampleSpecToString follows pa_sample_spec_snprint', t => {
+  t.is(sampleSpecToString(s16Stereo), 's16le 2ch 44100Hz')
+})
+
+test('parseSampleSpec parses pactl sample specs', t => {
+  t.deepEqual(parseSampleSpec('s16le 2ch 44100Hz'), s16Stereo)
+  t.deepEqual(parseSampleSpec('float32le 6ch 48000Hz'), { format: PASampleFormat.FLOAT32LE, channels: 6, rate: 48000 })
+  t.throws(() => parseSampleSpec('s16le 2ch'), { message: 'Invalid sample spec "s16le 2ch".' })
+  t.throws(() => parseSampleSpec('s16le 0ch 44100Hz'), { message: 'Invalid sample spec "s16le 0ch 44100Hz".' })
+})
+
+test('channelPositionToString and channelPositionToPrettyString follow channelmap.c', t => {
+  t.is(channelPositionToString(PAChannelPosition.FRONT_LEFT), 'front-left')
+  t.is(channelPositionToString(PAChannelPosition.AUX7), 'aux7')
+  t.is(channelPositionToString(PAChannelPosition.TOP_REAR_CENTER), 'top-rear-center')
+  t.is(channelPositionToPrettyString(PAChannelPosition.LFE), 'Subwoofer')
+  t.is(channelPositionToPrettyString(PAChannelPosition.AUX31), 'Auxiliary 31')
+})
+
+test('parseChannelPosition accepts names and aliases', t => {
+  t.is(parseChannelPosition('side-right'), PAChannelPosition.SIDE_RIGHT)
+  t.is(parseChannelPosition('aux12'), PAChannelPosition.AUX12)
+  t.is(parseChannelPosition('subwoofer'), PAChannelPosition.LFE)
+  t.is(parseChannelPosition('left'), PAChannelPosition.FRONT_LEFT)
+  t.throws(() => parseChannelPosition('back-left'), { message: 'Unknown channel position "back-left".' })
+})
+
+test('channelMapToString and parseChannelMap use the format pactl prints', t => {
+  const channelMap = { channels: 3, types: [PAChannelPosition.FRONT_LEFT, PAChannelPosition.FRONT_RIGHT, PAChannelPosition.LFE] }
+  t.is(channelMapToString(channelMap), 'front-left,front-right,lfe')
+  t.deepEqual(parseChannelMap('front-left,front-right,lfe'), channelMap)
+})
+
+test('initChannelMap follows pa_channel_map_init_auto', t => {
+  t.is(channelMapToString(initChannelMap(1)), 'mono')
+  t.is(channelMapToString(initChannelMap(4)), 'front-left,front-center,front-right,rear-center')
+  t.is(channelMapToString(initChannelMap(6, PAChannelMapDef.ALSA)), 'front-left,front-right,rear-left,rear-right,front-center,lfe')
+  t.is(channelMapToString(initChannelMap(8, PAChannelMapDef.OSS)), 'front-left,front-right,front-center,lfe,side-left,side-right,rear-left,rear-right')
+  t.is(channelMapToString(initChannelMap(6, PAChannelMapDef.WAVEEX)), 'front-left,front-right,front-center,lfe,rear-left,rear-right')
+  t.is(channelMapToString(initChannelMap(3, PAChannelMapDef.AUX)), 'aux0,aux1,aux2')
+})
+
+test('initChannelMap rejects channel counts the standard has no channel map for', t => {
+  t.throws(() => initChannelMap(3, PAChannelMapDef.ALSA), { message: 'No channel map with 3 channels in ALSA order.' })
+  t.throws(() => initChannelMap(33, PAChannelMapDef.AUX), { message: 'Expected between 1 and 32 channels, got 33.' })
+})
+
+test('channelMapFromPreset creates the channel maps pa_channel_map_parse knows', t => {
+  t.deepEqual(channelMapFromPreset('stereo'), { channels: 2, types: [PAChannelPosition.FRONT_LEFT, PAChannelPosition.FRONT_RIGHT] })
+  t.is(channelMapToString(channelMapFromPreset('surround-21')), 'front-left,front-right,lfe')
+  t.is(channelMapToString(channelMapFromPreset('surround-71')), 'front-left,front-right,rear-left,rear-right,front-center,lfe,side-left,side-right')
+  t.is(channelMapFromPreset('aux8').channels, 8)
+  t.is(channelMapFromPreset('aux8').types[7], PAChannelPosition.AUX7)
+})
+
+test('parseChannelMap accepts channel map presets', t => {
+  t.deepEqual(parseChannelMap('surround-51'), channelMapFromPreset('surround-51'))
+  t.deepEqual(parseChannelMap('aux8'), { channels: 1, types: [PAChannelPosition.AUX8] })
+})
+
+test('encodingToString and parseEncoding follow format.c', t => {
+  t.is(encodingToString(PAEncoding.PCM), 'pcm')
+  t.is(encodingToString(PAEncoding.AC3_IEC61937), 'ac3-iec61937')
+  t.is(parseEncoding('mpeg2-aac-iec61937'), PAEncoding.MPEG2_AAC_IEC61937)
+  t.throws(() => parseEncoding('flac'), { message: 'Unknown encoding "flac".' })
+})
@@ -1,7 +1,9 @@
 import test from 'ava'
 import { Buffer } from 'buffer'
 
-import { PATag, PATagType, PAU32, PABoolean, PAString, PAArbitrary, PAProp, PAPropList, PAChannelMap, PASampleSpec, PAChannelVolume, PAUsec, PAVolume } from '../../src/tag'
+import { PATag, PATagType, PAU32, PABoolean, PAString, PAArbitrary, PAProp, PAPropList, PAChannelMap, PASampleSpec, PAChannelVolume, PAUsec, PAVolume, PAS64, PAU8, PAU64, PATimeval } from '../../src/tag'
+import PAPacket from '../../src/packet'
+import { PA_NATIVE_COMMAND_NAMES } from '../../src/commands'
 
 interface PATagTestCases<T> {
   title: string
@@ -138,6 +140,46 @@ const cases: Array<PATagTestCases<any>> = [
       value: ['application.name', 'pulse-audio-sinks.js']
     }
   },
+  {
+    title: 'Create prop with multibyte characters from value',
+    pa_tag: new PAProp(['media.name', 'Café']),
+    expected: {
+      tag: Buffer.from('746d656469612e6e616d65004c000000067800000006436166c3a900', 'hex'),
+      size: 28,
+      type: PATagType.PA_TAG_PROP,
+      value: ['media.name', 'Café']
+    }
+  },
+  {
+    title: 'Create binary prop from value',
+    pa_tag: new PAProp(['application.icon', Buffer.from('89504e470001', 'hex')]),
+    expected: {
+      tag: Buffer.from('746170706c69636174696f6e2e69636f6e004c00000006780000000689504e470001', 'hex'),
+      size: 34,
+      type: PATagType.PA_TAG_PROP,
+      value: ['application.icon', Buffer.from('89504e470001', 'hex')]
+    }
+  },
+  {
+    title: 'Create binary prop from buffer',
+    pa_tag: new PAProp(Buffer.from('746170706c69636174696f6e2e69636f6e004c00000006780000000689504e470001', 'hex')),
+    expected: {
+      tag: Buffer.from('746170706c69636174696f6e2e69636f6e004c00000006780000000689504e470001', 'hex'),
+      size: 34,
+      type: PATagType.PA_TAG_PROP,
+      value: ['application.icon', Buffer.from('89504e470001', 'hex')]
+    }
+  },
+  {
+    title: 'Create binary prop from null terminated buffer that is not UTF-8',
+    pa_tag: new PAProp(Buffer.from('746465766963652e6964004c000000037800000003fffe00', 'hex')),
+    expected: {
+      tag: Buffer.from('746465766963652e6964004c000000037800000003fffe00', 'hex'),
+      size: 24,
+      type: PATagType.PA_TAG_PROP,
+      value: ['device.id', Buffer.from('fffe00', 'hex')]
+    }
+  },
   {
     title: 'Create list of props from values',
     pa_tag: new PAPropList([['application.name', 'pulse-audio-sinks.js'], ['application.name', 'pulse-audio-sinks.js']]),
@@ -287,6 +329,96 @@ const cases: Array<PATagTestCases<any>> = [
       type: PATagType.PA_TAG_VOLUME,
       value: 65536
     }
+  },
+  {
+    title: 'Create s64 from values',
+    pa_tag: new PAS64(BigInt(-20000)),
+    expected: {
+      tag: Buffer.from('72ffffffffffffb1e0', 'hex'),
+      size: 9,
+      type: PATagType.PA_TAG_S64,
+      value: BigInt(-20000)
+    }
+  },
+  {
+    title: 'Create s64 from buffer',
+    pa_tag: new PAS64(Buffer.from('72ffffffffffffb1e0', 'hex')),
+    expected: {
+      tag: Buffer.from('72ffffffffffffb1e0', 'hex'),
+      size: 9,
+      type: PATagType.PA_TAG_S64,
+      value: BigInt(-20000)
+    }
+  },
+  {
+    title: 'Create u64 from values',
+    pa_tag: new PAU64(BigInt('18446744073709551615')),
+    expected: {
+      tag: Buffer.from('52ffffffffffffffff', 'hex'),
+      size: 9,
+      type: PATagType.PA_TAG_U64,
+      value: BigInt('18446744073709551615')
+    }
+  },
+  {
+    title: 'Create u64 from buffer',
+    pa_tag: new PAU64(Buffer.from('52ffffffffffffffff', 'hex')),
+    expected: {
+      tag: Buffer.from('52ffffffffffffffff', 'hex'),
+      size: 9,
+      type: PATagType.PA_TAG_U64,
+      value: BigInt('18446744073709551615')
+    }
+  },
+  {
+    title: 'Create timeval from values',
+    pa_tag: new PATimeval({ seconds: 1700000000, microseconds: 250000 }),
+    expected: {
+      tag: Buffer.from('546553f1000003d090', 'hex'),
+      size: 9,
+      type: PATagType.PA_TAG_TIMEVAL,
+      value: { seconds: 1700000000, microseconds: 250000 }
+    }
+  },
+  {
+    title: 'Create timeval from buffer',
+    pa_tag: new PATimeval(Buffer.from('546553f1000003d090', 'hex')),
+    expected: {
+      tag: Buffer.from('546553f1000003d090', 'hex'),
+      size: 9,
+      type: PATagType.PA_TAG_TIMEVAL,
+      value: { seconds: 1700000000, microseconds: 250000 }
+    }
+  },
+  {
+    title: 'Create u8 from value',
+    pa_tag: new PAU8(2),
+    expected: {
+      tag: Buffer.from('4202', 'hex'),
+      size: 2,
+      type: PATagType.PA_TAG_U8,
+      value: 2
+    }
+  },
+  {
+    title: 'Create u8 from buffer',
+    pa_tag: new PAU8(Buffer.from('4202504e', 'hex')),
+    expected: {
+      tag: Buffer.from('4202', 'hex'),
+      size: 2,
+      type: PATagType.PA_TAG_U8,
+      value: 2
+    }
+  },
+  {
+    title: 'Create u8 of 0 from buffer followed by a format info tag',
+    pa_tag: new PAU8(Buffer.from('4200664201504e', 'hex')),
+    expected: {
+      tag: Buffer.from('4200', 'hex'),
+      size: 2,
+      type: PATagType.PA_TAG_U8,
+      value: 0
+    }
   }
   // {
   //   title: 'Create format from values',
@@ -327,3 +459,17 @@ for (const c of cases) {
     t.deepEqual(c.pa_tag.tag, c.expected.tag)
   })
 }
+
+test('64 bit and timeval tags survive a packet round trip', t => {
+  const packet: PAPacket = new PAPacket()
+  packet.setCommand(PA_NATIVE_COMMAND_NAMES.PA_COMMAND_REPLY)
+  packet.setRequestId(1)
+  packet.putU64(BigInt('18446744073709551615'))
+  packet.putS64(BigInt(-20000))
+  packet.putUsec(BigInt(1500))
+  packet.putTimeval({ seconds: 1700000000, microseconds: 250000 })
+
+  const parsed: PAPacket = new PAPacket(packet.write())
+  t.deepEqual(parsed.tags.map(tag => tag.type), [PATagType.PA_TAG_U64, PATagType.PA_TAG_S64, PATagType.PA_TAG_USEC, PATagType.PA_TAG_TIMEVAL])
+  t.deepEqual(parsed.tags.map(tag => tag.value), [BigInt('18446744073709551615'), BigInt(-20000), BigInt(1500), { seconds: 1700000000, microseconds: 250000 }])
+})
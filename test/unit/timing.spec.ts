@@ -0,0 +1,124 @@
+import test from 'ava'
+import { PassThrough } from 'stream'
+import PulseAudio from '../../src/client'
+import PARequest from '../../src/request'
+import { PAStreamFlags } from '../../src/streams/common'
+import { getTimingInfo, bytesToUsec, timevalToUsec, usecToTimeval } from '../../src/timing'
+import PAPlaybackStream from '../../src/streams/playback'
+import PARecordStream from '../../src/streams/record'
+import { LatencyInfo, PlaybackStreamInfo, RecordStreamInfo, SampleSpec } from '../../src/types/pulseaudio'
+
+const s16Stereo: SampleSpec = { format: 3, channels: 2, rate: 44100 } // 176400 bytes per second
+
+const playbackInfo: PlaybackStreamInfo = {
+  channel: 0,
+  index: 12,
+  requestedBytes: 0,
+  bufferAttr: { maxLength: 4194304, targetLength: 352800, prebuffer: 349276, minimumRequest: 3528 },
+  sampleSpec: s16Stereo,
+  channelMap: { channels: 2, types: [1, 2] },
+  sinkIndex: 0,
+  sinkName: 'alsa_output.dac.stereo-fallback',
+  isSuspended: false,
+  sinkLatency: BigInt(23219)
+}
+
+const recordInfo: RecordStreamInfo = {
+  channel: 1,
+  index: 4,
+  bufferAttr: { maxLength: 4194304, fragmentSize: 17640 },
+  sampleSpec: s16Stereo,
+  channelMap: { channels: 2, types: [1, 2] },
+  sourceIndex: 1,
+  sourceName: 'alsa_input.dac.stereo-fallback',
+  isSuspended: false,
+  sourceLatency: BigInt(10000)
+}
+
+const playbackLatency: LatencyInfo = {
+  sinkUsec: BigInt(23219),
+  sourceUsec: BigInt(0),
+  playing: true,
+  localTimeval: { seconds: 1700000000, microseconds: 250000 },
+  remoteTimeval: { seconds: 1700000000, microseconds: 250400 },
+  writeIndex: BigInt(441000), // 2.5 s
+  readIndex: BigInt(352800), // 2 s
+  sinceUnderrun: BigInt(0),
+  playingFor: BigInt(1995000)
+}
+
+const recordLatency: LatencyInfo = {
+  sinkUsec: BigInt(0),
+  sourceUsec: BigInt(10000),
+  playing: true,
+  localTimeval: { seconds: 1700000000, microseconds: 250000 },
+  remoteTimeval: { seconds: 1700000000, microseconds: 250400 },
+  writeIndex: BigInt(176400), // 1 s
+  readIndex: BigInt(158760) // 0.9 s
+}
+
+const now = { seconds: 1700000000, microseconds: 250900 }
+
+const playbackStream = (): PAPlaybackStream => new PAPlaybackStream({} as any, playbackInfo, () => {})
+const recordStream = (): PARecordStream => new PARecordStream({} as any, recordInfo)
+
+test('bytesToUsec follows pa_bytes_to_usec', t => {
+  t.is(bytesToUsec(BigInt(176400), s16Stereo), BigInt(1000000))
+  t.is(bytesToUsec(BigInt(7), s16Stereo), BigInt(39)) // rounds down
+})
+
+test('Timevals convert to and from microseconds', t => {
+  t.is(timevalToUsec({ seconds: 2, microseconds: 500 }), BigInt(2000500))
+  t.deepEqual(usecToTimeval(BigInt(2000500)), { seconds: 2, microseconds: 500 })
+})
+
+test('getTimingInfo measures the transport delay of a playback stream with synchronized clocks', t => {
+  const info = getTimingInfo(playbackLatency, now, playbackStream())
+  t.true(info.synchronizedClocks)
+  t.is(info.transportUsec, BigInt(400))
+  t.deepEqual(info.timestamp, playbackLatency.remoteTimeval)
+})
+
+test('getTimingInfo estimates the transport delay when clocks are not synchronized', t => {
+  const info = getTimingInfo({ ...playbackLatency, remoteTimeval: { seconds: 1700000000, microseconds: 251000 } }, now, playbackStream())
+  t.false(info.synchronizedClocks)
+  t.is(info.transportUsec, BigInt(450))
+  t.deepEqual(info.timestamp, { seconds: 1700000000, microseconds: 250450 })
+})
+
+test('getTimingInfo computes the latency of a playback stream', t => {
+  // 2.5 s written, 2 s read + 400 us transport - 23219 us still in the sink
+  t.is(getTimingInfo(playbackLatency, now, playbackStream()).latency, BigInt(522819))
+})
+
+test('getTimingInfo ignores device and transport delays of a corked playback stream', t => {
+  const stream = playbackStream()
+  stream.isCorked = true
+  t.is(getTimingInfo(playbackLatency, now, stream).latency, BigInt(500000))
+})
+
+test('getTimingInfo ignores device and transport delays of a playback stream created corked', async t => {
+  const client: PulseAudio = new PulseAudio('tcp:localhost:1234')
+  const internals = client as unknown as { socket: PassThrough, requests: PARequest[], connected: boolean }
+  internals.socket = new PassThrough()
+  internals.connected = true
+
+  const created = client.createPlaybackStream({ sampleSpec: s16Stereo, flags: PAStreamFlags.START_CORKED })
+  internals.requests[0].resolve(playbackInfo)
+  // Only the written and read indexes count until the stream is uncorked
+  t.is(getTimingInfo(playbackLatency, now, await created).latency, BigInt(500000))
+})
+
+test('getTimingInfo computes the latency of a record stream', t => {
+  const info = getTimingInfo(recordLatency, now, recordStream())
+  t.is(info.transportUsec, BigInt(500))
+  // 1 s written + 500 us transport + 10 ms in the source, 0.9 s read
+  t.is(info.latency, BigInt(110500))
+})
+
+test('getTimingInfo keeps the latency reply fields', t => {
+  const info = getTimingInfo(playbackLatency, now, playbackStream())
+  t.is(info.sinkUsec, playbackLatency.sinkUsec)
+  t.is(info.writeIndex, playbackLatency.writeIndex)
+  t.is(info.playingFor, playbackLatency.playingFor)
+})
@@ -40,3 +40,7 @@ test('JSONStringify', t => {
 test('JSONParse', t => {
   t.deepEqual(JSONParse(stringifiedObjectWithBigInt), objectWithBigInt)
 })
+
+test('JSONParse negative BigInt', t => {
+  t.deepEqual(JSONParse('{"a":"-20000n"}'), { a: BigInt(-20000) })
+})
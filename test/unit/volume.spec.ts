@@ -0,0 +1,129 @@
+import test from 'ava'
+import {
+  PAVolumeUnit,
+  getBalance,
+  setBalance,
+  getFade,
+  setFade,
+  remapVolume,
+  toRawVolume,
+  fromRawVolume,
+  volumeToLinear,
+  volumeFromLinear,
+  volumeToDecibels,
+  volumeFromDecibels,
+  volumeToPercent,
+  volumeFromPercent
+} from '../../src/volume'
+import { PA_VOLUME_NORM } from '../../src/protocol'
+import { ChannelMap, ChannelVolume } from '../../src/types/pulseaudio'
+
+const mono: ChannelMap = { channels: 1, types: [0] }
+const stereo: ChannelMap = { channels: 2, types: [1, 2] }
+const surround51: ChannelMap = { channels: 6, types: [1, 2, 5, 6, 3, 7] } // FL, FR, RL, RR, FC, LFE
+
+const cvolume = (...volumes: number[]): ChannelVolume => ({ channels: volumes.length, volumes })
+
+test('getBalance of a centered stereo volume is 0', t => {
+  t.is(getBalance(cvolume(65536, 65536), stereo), 0)
+})
+
+test('getBalance follows pa_cvolume_get_balance', t => {
+  t.is(getBalance(cvolume(65536, 0), stereo), -1)
+  t.is(getBalance(cvolume(0, 65536), stereo), 1)
+  t.is(getBalance(cvolume(65536, 32768), stereo), -0.5)
+})
+
+test('getBalance is 0 without left and right channels', t => {
+  t.is(getBalance(cvolume(65536), mono), 0)
+})
+
+test('setBalance keeps the loudest side and scales the other one', t => {
+  t.deepEqual(setBalance(cvolume(65536, 65536), stereo, -0.5), cvolume(65536, 32768))
+  t.deepEqual(setBalance(cvolume(65536, 65536), stereo, 1), cvolume(0, 65536))
+  t.deepEqual(setBalance(cvolume(65536, 32768), stereo, 0), cvolume(65536, 65536))
+})
+
+test('setBalance does not modify the input volume', t => {
+  const volume = cvolume(65536, 65536)
+  setBalance(volume, stereo, -1)
+  t.deepEqual(volume, cvolume(65536, 65536))
+})
+
+test('setBalance leaves center and LFE channels untouched', t => {
+  t.deepEqual(setBalance(cvolume(65536, 65536, 65536, 65536, 65536, 65536), surround51, 0.5), cvolume(32768, 65536, 32768, 65536, 65536, 65536))
+})
+
+test('setBalance leaves volumes without left and right channels untouched', t => {
+  t.deepEqual(setBalance(cvolume(65536), mono, 1), cvolume(65536))
+})
+
+test('setBalance throws on out of range values and mismatched channel maps', t => {
+  t.throws(() => setBalance(cvolume(65536, 65536), stereo, 1.5))
+  t.throws(() => setBalance(cvolume(65536), stereo, 0))
+})
+
+test('getFade and setFade use front and rear channels', t => {
+  const volume = setFade(cvolume(65536, 65536, 65536, 65536, 65536, 65536), surround51, -0.5)
+  t.deepEqual(volume, cvolume(32768, 32768, 65536, 65536, 32768, 65536))
+  t.is(getFade(volume, surround51), -0.5)
+})
+
+test('getFade is 0 without rear channels', t => {
+  t.is(getFade(cvolume(65536, 0), stereo), 0)
+})
+
+test('remapVolume uses the volume of the same position, then of the same side, then the average', t => {
+  t.deepEqual(remapVolume(cvolume(60000, 30000), stereo, surround51), cvolume(60000, 30000, 60000, 30000, 45000, 45000))
+  t.deepEqual(remapVolume(cvolume(60000, 30000, 40000, 20000, 50000, 10000), surround51, stereo), cvolume(60000, 30000))
+  t.deepEqual(remapVolume(cvolume(60000, 30000, 40000, 20000, 50000, 10000), surround51, mono), cvolume(35000))
+})
+
+test('remapVolume copies the volume between equal channel maps and throws on mismatched ones', t => {
+  const volume = cvolume(60000, 30000)
+  const remapped = remapVolume(volume, stereo, { channels: 2, types: [1, 2] })
+  t.deepEqual(remapped, volume)
+  t.not(remapped.volumes, volume.volumes)
+  t.throws(() => remapVolume(cvolume(65536), stereo, mono))
+})
+
+test('Linear conversions use the cubic mapping', t => {
+  t.is(volumeToLinear(PA_VOLUME_NORM), 1)
+  t.is(volumeToLinear(PA_VOLUME_NORM / 2), 0.125)
+  t.is(volumeToLinear(0), 0)
+  t.is(volumeFromLinear(0.125), PA_VOLUME_NORM / 2)
+  t.is(volumeFromLinear(-1), 0)
+})
+
+test('Decibel conversions', t => {
+  t.is(volumeToDecibels(PA_VOLUME_NORM), 0)
+  t.is(volumeToDecibels(0), -Infinity)
+  t.is(volumeFromDecibels(0), PA_VOLUME_NORM)
+  t.is(volumeFromDecibels(-Infinity), 0)
+  t.is(volumeFromDecibels(volumeToDecibels(30000)), 30000)
+})
+
+test('Percent conversions are relative to PA_VOLUME_NORM', t => {
+  t.is(volumeToPercent(PA_VOLUME_NORM), 100)
+  t.is(volumeFromPercent(50), 32768)
+  t.is(volumeFromPercent(150), 98304)
+})
+
+test('toRawVolume and fromRawVolume round trip every unit', t => {
+  for (const unit of [PAVolumeUnit.RAW, PAVolumeUnit.PERCENT, PAVolumeUnit.LINEAR, PAVolumeUnit.DECIBEL]) {
+    t.is(toRawVolume(fromRawVolume(45000, unit), unit), 45000)
+  }
+})
+
+test('toRawVolume makes decibels relative to the base volume', t => {
+  const scale = { baseVolume: volumeFromDecibels(-6), volumeSteps: PA_VOLUME_NORM + 1 }
+  t.is(toRawVolume(0, PAVolumeUnit.DECIBEL, scale), scale.baseVolume)
+  t.is(fromRawVolume(scale.baseVolume, PAVolumeUnit.DECIBEL, scale), 0)
+})
+
+test('toRawVolume rounds to the volume steps of the device', t => {
+  const scale = { baseVolume: PA_VOLUME_NORM, volumeSteps: 5 }
+  t.is(toRawVolume(30, PAVolumeUnit.PERCENT, scale), 16384)
+  t.is(toRawVolume(40, PAVolumeUnit.PERCENT, scale), 32768)
+  t.is(toRawVolume(30000, PAVolumeUnit.RAW, scale), 30000)
+})